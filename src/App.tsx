@@ -2,12 +2,20 @@ import React from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { DataProvider } from './contexts/DataContext';
+import { SettingsProvider } from './contexts/SettingsContext';
 import { AuthPage } from './pages/Auth';
 import { Dashboard } from './pages/Dashboard';
 import { Products } from './pages/Products';
 import { Customers } from './pages/Customers';
 import { Orders } from './pages/Orders';
+import { Subscriptions } from './pages/Subscriptions';
 import { Statements } from './pages/Statements';
+import { Billing } from './pages/Billing';
+import { Aging } from './pages/Aging';
+import { RateExceptions } from './pages/RateExceptions';
+import { Invoices } from './pages/Invoices';
+import { Gstr1 } from './pages/Gstr1';
+import { Settings } from './pages/Settings';
 import { Header } from './components/Layout/Header';
 import { BottomNav } from './components/Layout/BottomNav';
 
@@ -25,7 +33,14 @@ function AppContent() {
       case '/products': return 'Products';
       case '/customers': return 'Customers';
       case '/orders': return 'Orders';
+      case '/subscriptions': return 'Subscriptions';
       case '/statements': return 'Statements';
+      case '/billing': return 'Billing';
+      case '/aging': return 'Aging';
+      case '/rates': return 'Rate Exceptions';
+      case '/invoices': return 'Tax Invoices';
+      case '/gstr1': return 'GSTR-1';
+      case '/settings': return 'Settings';
       default: return 'Dashboard';
     }
   };
@@ -39,7 +54,14 @@ function AppContent() {
           <Route path="/products" element={<Products />} />
           <Route path="/customers" element={<Customers />} />
           <Route path="/orders" element={<Orders />} />
+          <Route path="/subscriptions" element={<Subscriptions />} />
           <Route path="/statements" element={<Statements />} />
+          <Route path="/billing" element={<Billing />} />
+          <Route path="/aging" element={<Aging />} />
+          <Route path="/rates" element={<RateExceptions />} />
+          <Route path="/invoices" element={<Invoices />} />
+          <Route path="/gstr1" element={<Gstr1 />} />
+          <Route path="/settings" element={<Settings />} />
           <Route path="/" element={<Navigate to="/dashboard" replace />} />
         </Routes>
       </main>
@@ -52,9 +74,11 @@ function App() {
   return (
     <Router>
       <AuthProvider>
-        <DataProvider>
-          <AppContent />
-        </DataProvider>
+        <SettingsProvider>
+          <DataProvider>
+            <AppContent />
+          </DataProvider>
+        </SettingsProvider>
       </AuthProvider>
     </Router>
   );
@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { DollarSign } from 'lucide-react';
+import { AdjustmentReason, Customer } from '../../types';
+import { useData } from '../../contexts/DataContext';
+import { format, parseISO } from 'date-fns';
+import { formatBalance, isAdvance } from '../../utils/ledger';
+import { ADJUSTMENT_REASON_LABELS, ADJUSTMENT_REASONS } from '../../utils/adjustments';
+import { formatMoney, parseRupees } from '../../utils/money';
+
+interface AdjustmentModalProps {
+  customer: Customer;
+  // Preselects the order the credit is for.
+  orderId?: string;
+  onClose: () => void;
+}
+
+export function AdjustmentModal({ customer, orderId: initialOrderId, onClose }: AdjustmentModalProps) {
+  const { orders, addAdjustment, getCustomerBalance } = useData();
+  const balance = getCustomerBalance(customer.id);
+  const [kind, setKind] = useState<'credit' | 'debit'>('credit');
+  const [amount, setAmount] = useState('');
+  const [adjustmentDate, setAdjustmentDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [reason, setReason] = useState<AdjustmentReason>('spoiled');
+  const [orderId, setOrderId] = useState(initialOrderId ?? '');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+
+  const customerOrders = orders
+    .filter(order => order.customerId === customer.id)
+    .sort((a, b) => parseISO(b.orderDate).getTime() - parseISO(a.orderDate).getTime());
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const adjustmentAmount = parseRupees(amount);
+
+    if (adjustmentAmount === undefined || adjustmentAmount <= 0) {
+      setError('Please enter a valid positive amount.');
+      return;
+    }
+    if (!adjustmentDate) {
+      setError('Please select a date.');
+      return;
+    }
+    if (reason === 'other' && !note.trim()) {
+      setError('Please say what the adjustment is for.');
+      return;
+    }
+
+    addAdjustment({
+      customerId: customer.id,
+      amount: kind === 'credit' ? adjustmentAmount : -adjustmentAmount,
+      adjustmentDate,
+      reason,
+      orderId: kind === 'credit' && orderId ? orderId : undefined,
+      note: note.trim() || undefined,
+    });
+    onClose();
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.9 }}
+        className="bg-white rounded-2xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Adjust Balance</h2>
+        <p className="text-gray-600 mb-6">For customer: <span className="font-medium">{customer.name}</span></p>
+
+        <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 rounded-r-lg mb-6">
+          <p className="text-sm text-yellow-800">{isAdvance(balance.pendingBalance) ? 'Paid in Advance:' : 'Current Pending Balance:'}</p>
+          <p className="text-2xl font-bold text-yellow-900">{formatBalance(balance.pendingBalance)}</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {(['credit', 'debit'] as const).map(k => (
+              <button
+                key={k}
+                type="button"
+                onClick={() => {
+                  setKind(k);
+                  setError('');
+                }}
+                className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors duration-200 ${
+                  kind === k
+                    ? 'bg-primary-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                {k === 'credit' ? 'Credit Note' : 'Extra Charge'}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            {kind === 'credit'
+              ? 'Lowers what the customer owes, e.g. for spoiled milk or a short delivery.'
+              : 'Adds to what the customer owes, e.g. to correct an undercharge.'}
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Amount
+              </label>
+              <div className="relative">
+                <DollarSign className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+                <input
+                  type="number"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => {
+                    setAmount(e.target.value);
+                    setError('');
+                  }}
+                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                  placeholder="Amount"
+                  required
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Date
+              </label>
+              <input
+                type="date"
+                value={adjustmentDate}
+                onChange={(e) => setAdjustmentDate(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                required
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Reason
+            </label>
+            <select
+              value={reason}
+              onChange={(e) => {
+                setReason(e.target.value as AdjustmentReason);
+                setError('');
+              }}
+              className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+            >
+              {ADJUSTMENT_REASONS.map(r => (
+                <option key={r} value={r}>{ADJUSTMENT_REASON_LABELS[r]}</option>
+              ))}
+            </select>
+          </div>
+
+          {kind === 'credit' && customerOrders.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                For Order (optional)
+              </label>
+              <select
+                value={orderId}
+                onChange={(e) => setOrderId(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+              >
+                <option value="">No particular order</option>
+                {customerOrders.map(order => (
+                  <option key={order.id} value={order.id}>
+                    {format(parseISO(order.orderDate), 'MMM dd, yyyy')} - {formatMoney(order.totalAmount)}
+                  </option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">The credit settles this order first, then the oldest unpaid ones.</p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Note {reason !== 'other' && '(optional)'}
+            </label>
+            <textarea
+              value={note}
+              onChange={(e) => {
+                setNote(e.target.value);
+                setError('');
+              }}
+              className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+              rows={2}
+              placeholder="e.g. 2 packets curdled"
+            />
+          </div>
+          {error && <p className="text-red-500 text-sm mt-1">{error}</p>}
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-xl font-medium hover:bg-gray-50 transition-colors duration-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-3 bg-primary-600 text-white rounded-xl font-medium hover:bg-primary-700 transition-colors duration-200"
+            >
+              Save Adjustment
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </motion.div>
+  );
+}
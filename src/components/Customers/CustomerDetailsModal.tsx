@@ -1,9 +1,24 @@
-import React from 'react';
-import { motion } from 'framer-motion';
-import { X, User, Phone, MapPin, ShoppingCart, Wallet } from 'lucide-react';
-import { Customer } from '../../types';
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, User, Phone, MapPin, ShoppingCart, Wallet, PauseCircle, Trash2, BookOpen, Edit2, RotateCcw, Printer, Tag, FileMinus } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Adjustment, Customer, Payment } from '../../types';
 import { useData } from '../../contexts/DataContext';
+import { useSettings } from '../../contexts/SettingsContext';
 import { format, parseISO } from 'date-fns';
+import { getUpcomingPauses } from '../../utils/subscriptions';
+import { isAdvance } from '../../utils/ledger';
+import { PauseModal } from './PauseModal';
+import { MilkDiaryModal } from './MilkDiaryModal';
+import { PaymentModal } from './PaymentModal';
+import { AdjustmentModal } from './AdjustmentModal';
+import { buildPaymentReceipt } from '../../utils/receiptPdf';
+import { describeDiscount, describeItem, describeOrderCharges, getLineTotal } from '../../utils/orders';
+import { describeRateCardItem, getStandardPrice } from '../../utils/pricing';
+import { canReversePayment, describeBalanceChange, describePayment, getLinkedPaymentIds, isReversal } from '../../utils/payments';
+import { formatMoney } from '../../utils/money';
+import { describeAdjustment } from '../../utils/adjustments';
+import { ORDER_STATUS_LABELS } from '../../utils/deliveries';
 
 interface CustomerDetailsModalProps {
   customer: Customer;
@@ -12,10 +27,59 @@ interface CustomerDetailsModalProps {
 }
 
 export function CustomerDetailsModal({ customer, onClose, onRecordPayment }: CustomerDetailsModalProps) {
-  const { orders } = useData();
+  const { orders, payments, adjustments, products, pauses, deletePause, deletePayment, reversePayment, deleteAdjustment, getCustomerBalance, getPaymentAllocations, getCustomerRates } = useData();
+  const { businessProfile } = useSettings();
+  const [isPauseModalOpen, setIsPauseModalOpen] = useState(false);
+  const [isDiaryOpen, setIsDiaryOpen] = useState(false);
+  const [editingPayment, setEditingPayment] = useState<Payment | null>(null);
+  // `null` is closed; an empty string opens it without a preselected order.
+  const [adjustmentOrderId, setAdjustmentOrderId] = useState<string | null>(null);
+  const balance = getCustomerBalance(customer.id);
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const upcomingPauses = getUpcomingPauses(pauses, customer.id, today);
+  const specialRates = getCustomerRates(customer.id);
   const customerOrders = orders
     .filter(order => order.customerId === customer.id)
     .sort((a, b) => parseISO(b.orderDate).getTime() - parseISO(a.orderDate).getTime());
+  const customerPayments = payments
+    .filter(payment => payment.customerId === customer.id)
+    .sort((a, b) => parseISO(b.paymentDate).getTime() - parseISO(a.paymentDate).getTime());
+  const customerAdjustments = adjustments
+    .filter(adjustment => adjustment.customerId === customer.id)
+    .sort((a, b) => parseISO(b.adjustmentDate).getTime() - parseISO(a.adjustmentDate).getTime());
+
+  const handleDeletePayment = (payment: Payment) => {
+    const removed = getLinkedPaymentIds(payments, payment.id);
+    const removedAmount = payments
+      .filter(p => removed.includes(p.id))
+      .reduce((sum, p) => sum + p.amount, 0);
+    const message = isReversal(payment)
+      ? 'Delete this reversal? The cheque will be marked as cleared again.'
+      : removed.length > 1
+        ? 'Delete this payment together with its bounced-cheque reversal?'
+        : 'Delete this payment?';
+    if (window.confirm(describeBalanceChange(message, balance.pendingBalance, balance.pendingBalance + removedAmount))) {
+      deletePayment(payment.id);
+    }
+  };
+
+  const handleDeleteAdjustment = (adjustment: Adjustment) => {
+    if (window.confirm(describeBalanceChange('Delete this adjustment?', balance.pendingBalance, balance.pendingBalance + adjustment.amount))) {
+      deleteAdjustment(adjustment.id);
+    }
+  };
+
+  const handleDownloadReceipt = (payment: Payment) => {
+    const doc = buildPaymentReceipt({ payment, allocations: getPaymentAllocations(payment.id), orders, business: businessProfile });
+    doc.save(`receipt-${customer.name.replace(/\s+/g, '-').toLowerCase()}-${payment.paymentDate}.pdf`);
+  };
+
+  const handleReversePayment = (payment: Payment) => {
+    const message = `Mark cheque${payment.reference ? ` ${payment.reference}` : ''} as bounced? A reversal dated today will be added.`;
+    if (window.confirm(describeBalanceChange(message, balance.pendingBalance, balance.pendingBalance + payment.amount))) {
+      reversePayment(payment.id, format(new Date(), 'yyyy-MM-dd'));
+    }
+  };
 
   return (
     <motion.div
@@ -47,6 +111,9 @@ export function CustomerDetailsModal({ customer, onClose, onRecordPayment }: Cus
           <div className="flex items-center gap-3">
             <User className="w-5 h-5 text-gray-500" />
             <span className="text-gray-800">{customer.name}</span>
+            {customer.group && (
+              <span className="px-2 py-0.5 bg-purple-100 text-purple-700 rounded-full text-xs font-medium">{customer.group}</span>
+            )}
           </div>
           <div className="flex items-center gap-3">
             <Phone className="w-5 h-5 text-gray-500" />
@@ -58,23 +125,84 @@ export function CustomerDetailsModal({ customer, onClose, onRecordPayment }: Cus
           </div>
         </div>
 
-        {/* Financial Summary */}
-        <div className="grid grid-cols-3 gap-4 mb-6 text-center">
+        {/* Upcoming Pauses */}
+        {upcomingPauses.length > 0 && (
+          <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 rounded-r-lg mb-6 space-y-2">
+            {upcomingPauses.map(pause => (
+              <div key={pause.id} className="flex items-center justify-between gap-3">
+                <p className="text-sm text-yellow-800">
+                  <span className="font-semibold">No delivery</span>{' '}
+                  {format(parseISO(pause.startDate), 'MMM dd')} to {format(parseISO(pause.endDate), 'MMM dd, yyyy')}
+                  {' '}({pause.productId ? products.find(p => p.id === pause.productId)?.name || 'Unknown product' : 'all products'})
+                  {pause.note && <span className="text-yellow-700"> - {pause.note}</span>}
+                </p>
+                <button
+                  onClick={() => deletePause(pause.id)}
+                  className="p-1 text-yellow-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors duration-200"
+                  title="Remove pause"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Special Rates */}
+        {specialRates.length > 0 && (
+          <div className="bg-purple-50 border-l-4 border-purple-400 p-4 rounded-r-lg mb-6">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-sm font-semibold text-purple-900 flex items-center gap-2">
+                <Tag className="w-4 h-4" />
+                Special Rates
+              </p>
+              <Link to="/rates" className="text-sm text-purple-700 hover:text-purple-900 font-medium">
+                Manage
+              </Link>
+            </div>
+            <div className="space-y-1">
+              {specialRates.map(rate => {
+                const standard = getStandardPrice(rate, products, today);
+                return (
+                  <p key={rate.id} className="text-sm text-purple-800">
+                    {describeRateCardItem(rate, products)}: <span className="font-semibold">{formatMoney(rate.price)}</span>
+                    {standard !== undefined && <span className="text-purple-600"> (list {formatMoney(standard)})</span>}
+                    {!rate.customerId && <span className="text-purple-600"> - {rate.group} rate</span>}
+                  </p>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Financial Summary: billed less paid less adjustments is what's pending */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-6 text-center">
             <div className="bg-blue-50 p-4 rounded-xl">
                 <p className="text-sm text-blue-700">Total Billed</p>
-                <p className="text-xl font-bold text-blue-900">₹{customer.totalAmount.toFixed(2)}</p>
+                <p className="text-xl font-bold text-blue-900">{formatMoney(balance.totalAmount)}</p>
             </div>
             <div className="bg-green-50 p-4 rounded-xl">
                 <p className="text-sm text-green-700">Total Paid</p>
-                <p className="text-xl font-bold text-green-900">₹{customer.paidAmount.toFixed(2)}</p>
+                <p className="text-xl font-bold text-green-900">{formatMoney(balance.paidAmount)}</p>
             </div>
-            <div className="bg-red-50 p-4 rounded-xl">
-                <p className="text-sm text-red-700">Pending</p>
-                <p className="text-xl font-bold text-red-900">₹{customer.pendingBalance.toFixed(2)}</p>
+            <div className="bg-purple-50 p-4 rounded-xl">
+                <p className="text-sm text-purple-700">Adjustments</p>
+                <p className="text-xl font-bold text-purple-900">{formatMoney(balance.adjustedAmount)}</p>
             </div>
+            {isAdvance(balance.pendingBalance) ? (
+              <div className="bg-emerald-50 p-4 rounded-xl">
+                  <p className="text-sm text-emerald-700">Advance</p>
+                  <p className="text-xl font-bold text-emerald-900">{formatMoney(-balance.pendingBalance)}</p>
+              </div>
+            ) : (
+              <div className="bg-red-50 p-4 rounded-xl">
+                  <p className="text-sm text-red-700">Pending</p>
+                  <p className="text-xl font-bold text-red-900">{formatMoney(balance.pendingBalance)}</p>
+              </div>
+            )}
         </div>
         
-        {/* Order History */}
+        {/* Order and Payment History */}
         <div className="flex-1 overflow-y-auto pr-2 -mr-2 mb-4">
           <h3 className="text-lg font-semibold text-gray-900 mb-4">Order History</h3>
           {customerOrders.length > 0 ? (
@@ -84,23 +212,36 @@ export function CustomerDetailsModal({ customer, onClose, onRecordPayment }: Cus
                   <div className="flex justify-between items-center">
                     <p className="font-semibold text-gray-800">Order on {format(parseISO(order.orderDate), 'MMM dd, yyyy')}</p>
                     <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${
-                      order.status === 'delivered' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
-                    }`}>{order.status}</span>
+                      order.status === 'delivered' ? 'bg-green-100 text-green-800'
+                        : order.status === 'partially_delivered' ? 'bg-orange-100 text-orange-800'
+                        : 'bg-yellow-100 text-yellow-800'
+                    }`}>{ORDER_STATUS_LABELS[order.status]}</span>
                   </div>
                   
                   <div className="mt-3 space-y-2 border-l-2 border-gray-200 pl-3">
                     {order.items.map((item, index) => (
                       <div key={index} className="flex justify-between items-center text-sm">
                         <span className="text-gray-700">
-                          {item.quantity}x {item.productName} <span className="text-gray-500 text-xs">(@ ₹{item.price.toFixed(2)})</span>
+                          {describeItem(item)} <span className="text-gray-500 text-xs">(@ {formatMoney(item.price)})</span>
+                          {item.discount && <span className="text-green-600 text-xs"> {describeDiscount(item.discount)}</span>}
                         </span>
-                        <span className="font-medium text-gray-600">₹{(item.price * item.quantity).toFixed(2)}</span>
+                        <span className="font-medium text-gray-600">{formatMoney(getLineTotal(item))}</span>
                       </div>
                     ))}
+                    {describeOrderCharges(order).length > 0 && (
+                      <p className="text-xs text-gray-500">{describeOrderCharges(order).join(', ')}</p>
+                    )}
                   </div>
 
-                  <div className="border-t border-gray-100 mt-3 pt-2 flex justify-end">
-                    <p className="text-right font-semibold text-gray-800">Order Total: ₹{order.totalAmount.toFixed(2)}</p>
+                  <div className="border-t border-gray-100 mt-3 pt-2 flex items-center justify-between">
+                    <button
+                      onClick={() => setAdjustmentOrderId(order.id)}
+                      className="inline-flex items-center gap-1 text-sm text-orange-600 hover:text-orange-700 font-medium"
+                    >
+                      <FileMinus className="w-4 h-4" />
+                      Give credit
+                    </button>
+                    <p className="text-right font-semibold text-gray-800">Order Total: {formatMoney(order.totalAmount)}</p>
                   </div>
                 </div>
               ))}
@@ -111,19 +252,155 @@ export function CustomerDetailsModal({ customer, onClose, onRecordPayment }: Cus
               <p className="text-gray-600">No orders placed by this customer yet.</p>
             </div>
           )}
+
+          <h3 className="text-lg font-semibold text-gray-900 mt-6 mb-4">Payment History</h3>
+          {customerPayments.length > 0 ? (
+            <div className="space-y-2">
+              {customerPayments.map(payment => (
+                <div key={payment.id} className="flex items-center justify-between gap-3 p-3 border border-gray-200 rounded-xl">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-800">{format(parseISO(payment.paymentDate), 'MMM dd, yyyy')}</p>
+                    <p className="text-sm text-gray-500 truncate">{describePayment(payment)}</p>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <span className={`font-semibold mr-2 ${payment.amount < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatMoney(payment.amount)}
+                    </span>
+                    {/* A bounced cheque settled nothing, so it has no receipt. */}
+                    {!isReversal(payment) && payment.chequeStatus !== 'bounced' && (
+                      <button
+                        onClick={() => handleDownloadReceipt(payment)}
+                        className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors duration-200"
+                        title="Download receipt"
+                      >
+                        <Printer className="w-4 h-4" />
+                      </button>
+                    )}
+                    {!isReversal(payment) && (
+                      <button
+                        onClick={() => setEditingPayment(payment)}
+                        className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors duration-200"
+                        title="Edit payment"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                    )}
+                    {canReversePayment(payment) && (
+                      <button
+                        onClick={() => handleReversePayment(payment)}
+                        className="p-2 text-yellow-600 hover:bg-yellow-50 rounded-lg transition-colors duration-200"
+                        title="Cheque bounced"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDeletePayment(payment)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors duration-200"
+                      title="Delete payment"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-10 bg-gray-50 rounded-xl">
+              <Wallet className="w-12 h-12 text-gray-400 mx-auto mb-2" />
+              <p className="text-gray-600">No payments recorded for this customer yet.</p>
+            </div>
+          )}
+
+          {customerAdjustments.length > 0 && (
+            <>
+              <h3 className="text-lg font-semibold text-gray-900 mt-6 mb-4">Credit Notes & Adjustments</h3>
+              <div className="space-y-2">
+                {customerAdjustments.map(adjustment => {
+                  const order = adjustment.orderId ? orders.find(o => o.id === adjustment.orderId) : undefined;
+                  return (
+                    <div key={adjustment.id} className="flex items-center justify-between gap-3 p-3 border border-gray-200 rounded-xl">
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-800">{format(parseISO(adjustment.adjustmentDate), 'MMM dd, yyyy')}</p>
+                        <p className="text-sm text-gray-500 truncate">
+                          {describeAdjustment(adjustment)}
+                          {order && ` (order of ${format(parseISO(order.orderDate), 'MMM dd')})`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        <span className={`font-semibold mr-2 ${adjustment.amount < 0 ? 'text-red-600' : 'text-orange-600'}`}>
+                          {formatMoney(adjustment.amount)}
+                        </span>
+                        <button
+                          onClick={() => handleDeleteAdjustment(adjustment)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors duration-200"
+                          title="Delete adjustment"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
         </div>
 
-        {/* Action Button */}
-        <div className="mt-auto pt-4 border-t border-gray-200">
+        {/* Action Buttons */}
+        <div className="mt-auto pt-4 border-t border-gray-200 flex gap-3">
+          <button
+            onClick={() => setIsDiaryOpen(true)}
+            className="flex-1 inline-flex items-center justify-center gap-2 border border-gray-300 text-gray-700 px-4 py-3 rounded-xl font-medium hover:bg-gray-50 transition-colors duration-200"
+          >
+            <BookOpen className="w-5 h-5" />
+            Milk Diary
+          </button>
+          <button
+            onClick={() => setIsPauseModalOpen(true)}
+            className="flex-1 inline-flex items-center justify-center gap-2 border border-gray-300 text-gray-700 px-4 py-3 rounded-xl font-medium hover:bg-gray-50 transition-colors duration-200"
+          >
+            <PauseCircle className="w-5 h-5" />
+            Pause Deliveries
+          </button>
+          <button
+            onClick={() => setAdjustmentOrderId('')}
+            className="flex-1 inline-flex items-center justify-center gap-2 border border-gray-300 text-gray-700 px-4 py-3 rounded-xl font-medium hover:bg-gray-50 transition-colors duration-200"
+          >
+            <FileMinus className="w-5 h-5" />
+            Adjust Balance
+          </button>
           <button
             onClick={() => onRecordPayment(customer)}
-            className="w-full inline-flex items-center justify-center gap-2 bg-green-600 text-white px-4 py-3 rounded-xl font-medium hover:bg-green-700 transition-colors duration-200"
+            className="flex-1 inline-flex items-center justify-center gap-2 bg-green-600 text-white px-4 py-3 rounded-xl font-medium hover:bg-green-700 transition-colors duration-200"
           >
             <Wallet className="w-5 h-5" />
             Record a Payment
           </button>
         </div>
       </motion.div>
+
+      {/* Nested modals sit outside the scaled card so fixed positioning still covers the viewport */}
+      <div onClick={(e) => e.stopPropagation()}>
+        <AnimatePresence>
+          {isPauseModalOpen && (
+            <PauseModal customer={customer} onClose={() => setIsPauseModalOpen(false)} />
+          )}
+          {isDiaryOpen && (
+            <MilkDiaryModal customer={customer} onClose={() => setIsDiaryOpen(false)} />
+          )}
+          {editingPayment && (
+            <PaymentModal customer={customer} payment={editingPayment} onClose={() => setEditingPayment(null)} />
+          )}
+          {adjustmentOrderId !== null && (
+            <AdjustmentModal
+              customer={customer}
+              orderId={adjustmentOrderId || undefined}
+              onClose={() => setAdjustmentOrderId(null)}
+            />
+          )}
+        </AnimatePresence>
+      </div>
     </motion.div>
   );
 }
@@ -0,0 +1,321 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ChevronLeft, ChevronRight, Download, X } from 'lucide-react';
+import { Customer } from '../../types';
+import { useData } from '../../contexts/DataContext';
+import { addMonths, eachDayOfInterval, endOfMonth, format, parseISO, startOfMonth } from 'date-fns';
+import { buildOrderItems, calculateOrderTotals } from '../../utils/orders';
+import { useSettings } from '../../contexts/SettingsContext';
+import { findRateCard, getProductPriceOn } from '../../utils/pricing';
+import { buildMilkDiaryCard } from '../../utils/milkDiaryPdf';
+import { baseQuantity, DEFAULT_UNIT, formatQuantity, quantityStep, roundQuantity, UNITS } from '../../utils/units';
+import { formatMoney } from '../../utils/money';
+import { setBilledQuantity } from '../../utils/deliveries';
+
+interface MilkDiaryModalProps {
+  customer: Customer;
+  onClose: () => void;
+}
+
+type DiaryGrid = Record<string, Record<string, string>>;
+
+export function MilkDiaryModal({ customer, onClose }: MilkDiaryModalProps) {
+  const { orders, payments, adjustments, ledger, products, addOrder, updateOrder, deleteOrder, getCustomerRates } = useData();
+  const rateCards = getCustomerRates(customer.id);
+  const { settings, businessProfile } = useSettings();
+  const [month, setMonth] = useState(startOfMonth(new Date()));
+  const inputRefs = useRef<Record<string, HTMLInputElement | null>>({});
+
+  const days = useMemo(
+    () => eachDayOfInterval({ start: month, end: endOfMonth(month) }).map(d => format(d, 'yyyy-MM-dd')),
+    [month]
+  );
+
+  const ordersByDay = useMemo(() => {
+    const byDay: Record<string, typeof orders> = {};
+    orders
+      .filter(o => o.customerId === customer.id)
+      .forEach(order => {
+        const day = format(parseISO(order.orderDate), 'yyyy-MM-dd');
+        (byDay[day] = byDay[day] || []).push(order);
+      });
+    return byDay;
+  }, [orders, customer.id]);
+
+  const savedGrid = useMemo(() => {
+    const grid: DiaryGrid = {};
+    days.forEach(day => {
+      grid[day] = {};
+      (ordersByDay[day] || []).forEach(order => {
+        order.items.forEach(item => {
+          // The diary counts the product itself, so packs are shown in its unit.
+          const current = Number(grid[day][item.productId] || 0);
+          grid[day][item.productId] = String(roundQuantity(current + baseQuantity(item), item.unit));
+        });
+      });
+    });
+    return grid;
+  }, [days, ordersByDay]);
+
+  // The diary holds one loose quantity per product and day. Days it can't show
+  // that way are left to the Orders page rather than flattened on save.
+  const lockedDays = useMemo(() => {
+    const locked: Record<string, string> = {};
+    days.forEach(day => {
+      const dayOrders = ordersByDay[day] || [];
+      const items = dayOrders.flatMap(o => o.items);
+      if (dayOrders.some(o => o.invoiceId)) {
+        locked[day] = 'On a tax invoice; cancel the invoice to change this day';
+      } else if (dayOrders.length > 1) {
+        locked[day] = 'Several orders this day; change them on the Orders page';
+      } else if (items.some(i => i.variantId)) {
+        locked[day] = 'Sold in packs; change this day on the Orders page';
+      } else if (items.some((i, index) => items.findIndex(j => j.productId === i.productId) !== index)) {
+        locked[day] = 'A product is on more than one line; change this day on the Orders page';
+      }
+    });
+    return locked;
+  }, [days, ordersByDay]);
+
+  const [edits, setEdits] = useState<DiaryGrid>({});
+
+  const cellValue = (day: string, productId: string) =>
+    edits[day]?.[productId] ?? savedGrid[day]?.[productId] ?? '';
+
+  const quantityOf = (day: string, productId: string) => Number(cellValue(day, productId)) || 0;
+
+  // Days already billed keep their original rate; new entries use the customer's
+  // special rate, or else the price in force that day.
+  const priceOf = (day: string, productId: string) => {
+    const existing = (ordersByDay[day] || []).flatMap(o => o.items).find(i => i.productId === productId);
+    const product = products.find(p => p.id === productId);
+    if (existing) return existing.price;
+    return findRateCard(rateCards, productId)?.price ?? (product ? getProductPriceOn(product, day) : 0);
+  };
+
+  const isDirty = Object.keys(edits).length > 0;
+
+  const changeMonth = (offset: number) => {
+    if (isDirty && !window.confirm('Discard unsaved changes to this month?')) return;
+    setEdits({});
+    setMonth(addMonths(month, offset));
+  };
+
+  const handleChange = (day: string, productId: string, value: string) => {
+    setEdits({ ...edits, [day]: { ...edits[day], [productId]: value } });
+  };
+
+  const focusCell = (row: number, col: number) => {
+    const input = inputRefs.current[`${row}-${col}`];
+    if (input) {
+      input.focus();
+      input.select();
+    }
+  };
+
+  // Spreadsheet-style movement: arrows in every direction, Enter moves down.
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, row: number, col: number) => {
+    const moves: Record<string, [number, number]> = {
+      ArrowUp: [-1, 0],
+      ArrowDown: [1, 0],
+      Enter: [1, 0],
+      ArrowLeft: [0, -1],
+      ArrowRight: [0, 1],
+    };
+    const move = moves[e.key];
+    if (!move) return;
+    e.preventDefault();
+    focusCell(row + move[0], col + move[1]);
+  };
+
+  const handleSave = () => {
+    Object.keys(edits).forEach(day => {
+      if (lockedDays[day]) return;
+      const changed = products
+        .filter(p => quantityOf(day, p.id) !== (Number(savedGrid[day]?.[p.id]) || 0))
+        .map(p => p.id);
+      if (changed.length === 0) return;
+
+      const [order] = ordersByDay[day] || [];
+      const newItems = (productIds: string[]) => buildOrderItems(
+        productIds
+          .filter(id => quantityOf(day, id) > 0)
+          .map(id => ({ productId: id, quantity: quantityOf(day, id) })),
+        products,
+        day
+      ).map(item => ({ ...item, price: priceOf(day, item.productId) }));
+
+      if (!order) {
+        const items = newItems(changed);
+        if (items.length === 0) return;
+        addOrder({
+          customerId: customer.id,
+          customerName: customer.name,
+          items,
+          ...calculateOrderTotals({ items, deliveryCharge: customer.deliveryCharge }, settings.rounding),
+          status: 'delivered',
+          orderDate: day,
+          deliveryDate: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // Only the changed lines move; the others keep their price, discount and
+      // recorded delivery, and the order keeps its own discount and charges.
+      const items = [
+        ...order.items
+          .filter(item => !changed.includes(item.productId) || quantityOf(day, item.productId) > 0)
+          .map(item => changed.includes(item.productId) ? setBilledQuantity(item, quantityOf(day, item.productId)) : item),
+        ...newItems(changed.filter(id => !order.items.some(item => item.productId === id))),
+      ];
+      if (items.length === 0) {
+        deleteOrder(order.id);
+      } else {
+        updateOrder(order.id, { items, ...calculateOrderTotals({ ...order, items }, settings.rounding) });
+      }
+    });
+
+    setEdits({});
+  };
+
+  const handleDownloadCard = () => {
+    if (isDirty && !window.confirm('The card is printed from saved entries. Continue without your unsaved changes?')) return;
+    const doc = buildMilkDiaryCard({ customer, month, orders, payments, adjustments, ledger, business: businessProfile });
+    doc.save(`milk-card-${customer.name.replace(/\s+/g, '-').toLowerCase()}-${format(month, 'yyyy-MM')}.pdf`);
+  };
+
+  const handleClose = () => {
+    if (isDirty && !window.confirm('Discard unsaved changes to this month?')) return;
+    onClose();
+  };
+
+  const columnTotals = products.map(p => days.reduce((sum, day) => sum + quantityOf(day, p.id), 0));
+  // Saved days show what was billed, charges included; edited days are an estimate until saved.
+  const rowAmount = (day: string) => edits[day]
+    ? products.reduce((sum, p) => sum + Math.round(quantityOf(day, p.id) * priceOf(day, p.id)), 0)
+    : (ordersByDay[day] || []).reduce((sum, o) => sum + o.totalAmount, 0);
+  const monthAmount = days.reduce((sum, day) => sum + rowAmount(day), 0);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+      onClick={handleClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.9 }}
+        className="bg-white rounded-2xl p-6 w-full max-w-4xl max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Milk Diary</h2>
+            <p className="text-gray-600">{customer.name}</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button onClick={() => changeMonth(-1)} className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg">
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <span className="text-sm font-medium text-gray-700 w-28 text-center">{format(month, 'MMMM yyyy')}</span>
+            <button onClick={() => changeMonth(1)} className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg">
+              <ChevronRight className="w-5 h-5" />
+            </button>
+            <button
+              onClick={handleDownloadCard}
+              className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+              title="Download milk card PDF"
+            >
+              <Download className="w-5 h-5" />
+            </button>
+            <button onClick={handleClose} className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-full">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+
+        {products.length === 0 ? (
+          <p className="text-gray-500 text-center py-10">Add products before filling in the diary</p>
+        ) : (
+          <div className="flex-1 overflow-auto border border-gray-200 rounded-xl">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0 z-10">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Day</th>
+                  {products.map(product => (
+                    <th key={product.id} className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {product.name} ({UNITS[product.unit ?? DEFAULT_UNIT].short})
+                    </th>
+                  ))}
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {days.map((day, row) => (
+                  <tr key={day} className={edits[day] ? 'bg-yellow-50' : lockedDays[day] ? 'bg-gray-50' : ''} title={lockedDays[day]}>
+                    <td className="px-3 py-1 whitespace-nowrap text-gray-700">{format(parseISO(day), 'dd EEE')}</td>
+                    {products.map((product, col) => (
+                      <td key={product.id} className="px-1 py-1">
+                        <input
+                          ref={el => { inputRefs.current[`${row}-${col}`] = el; }}
+                          type="number"
+                          min="0"
+                          step={quantityStep(product.unit)}
+                          value={cellValue(day, product.id)}
+                          onChange={(e) => handleChange(day, product.id, e.target.value)}
+                          onKeyDown={(e) => handleKeyDown(e, row, col)}
+                          onFocus={(e) => e.target.select()}
+                          disabled={!!lockedDays[day]}
+                          className="w-full px-2 py-1 text-right border border-gray-200 rounded-md focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none disabled:bg-gray-50 disabled:text-gray-500"
+                        />
+                      </td>
+                    ))}
+                    <td className="px-3 py-1 text-right font-medium text-gray-800 whitespace-nowrap">
+                      {rowAmount(day) > 0 ? formatMoney(rowAmount(day)) : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-50 sticky bottom-0 font-semibold text-gray-900">
+                <tr>
+                  <td className="px-3 py-2">Total</td>
+                  {columnTotals.map((total, index) => (
+                    <td key={products[index].id} className="px-3 py-2 text-right">{formatQuantity(total, products[index].unit)}</td>
+                  ))}
+                  <td className="px-3 py-2 text-right whitespace-nowrap">{formatMoney(monthAmount)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+
+        {Object.keys(lockedDays).length > 0 && (
+          <p className="pt-3 text-xs text-gray-500">
+            Greyed days have packs, several orders or an invoice, and are changed on the Orders page.
+          </p>
+        )}
+
+        <div className="flex gap-3 pt-4">
+          <button
+            type="button"
+            onClick={handleClose}
+            className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-xl font-medium hover:bg-gray-50 transition-colors duration-200"
+          >
+            Close
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={!isDirty}
+            className="flex-1 px-4 py-3 bg-primary-600 text-white rounded-xl font-medium hover:bg-primary-700 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save Month
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -1,26 +1,55 @@
 import React, { useState } from 'react';
 import { motion } from 'framer-motion';
 import { DollarSign } from 'lucide-react';
-import { Customer } from '../../types';
+import { ChequeStatus, Customer, Payment, PaymentMethod } from '../../types';
 import { useData } from '../../contexts/DataContext';
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
+import { formatBalance, isAdvance } from '../../utils/ledger';
+import { CHEQUE_STATUS_LABELS, describeBalanceChange, PAYMENT_METHOD_LABELS, PAYMENT_METHODS, REFERENCE_LABELS } from '../../utils/payments';
+import { formatMoney, parseRupees, rupeesInput } from '../../utils/money';
 
 interface PaymentModalProps {
   customer: Customer;
+  // When given, the modal edits this payment instead of recording a new one.
+  payment?: Payment;
   onClose: () => void;
 }
 
-export function PaymentModal({ customer, onClose }: PaymentModalProps) {
-  const { makePayment } = useData();
-  const [amount, setAmount] = useState('');
-  const [paymentDate, setPaymentDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+export function PaymentModal({ customer, payment, onClose }: PaymentModalProps) {
+  const { orders, makePayment, updatePayment, getCustomerBalance, getOrderPaymentInfo, getPaymentAllocations } = useData();
+  const balance = getCustomerBalance(customer.id);
+  const [amount, setAmount] = useState(payment ? rupeesInput(payment.amount) : '');
+  const [paymentDate, setPaymentDate] = useState(payment?.paymentDate ?? format(new Date(), 'yyyy-MM-dd'));
+  const [method, setMethod] = useState<PaymentMethod>(payment?.method ?? 'cash');
+  const [reference, setReference] = useState(payment?.reference ?? '');
+  const [chequeStatus, setChequeStatus] = useState<ChequeStatus>(payment?.chequeStatus ?? 'pending');
+  const [note, setNote] = useState(payment?.note ?? '');
+  // A bounced cheque is settled through its reversal, so its method and status stay fixed.
+  const isBounced = payment?.chequeStatus === 'bounced';
+  const [allocateManually, setAllocateManually] = useState(!!payment?.allocations?.length);
+  const [manualAmounts, setManualAmounts] = useState<Record<string, string>>(
+    Object.fromEntries((payment?.allocations ?? []).map(a => [a.orderId, rupeesInput(a.amount)]))
+  );
+
+  // What each order could take from this payment: its unpaid part plus whatever
+  // this payment already covers when editing.
+  const currentAllocations = payment ? getPaymentAllocations(payment.id) : [];
+  const openOrders = orders
+    .filter(order => order.customerId === customer.id)
+    .map(order => ({
+      order,
+      available: getOrderPaymentInfo(order).dueAmount +
+        (currentAllocations.find(a => a.orderId === order.id)?.amount ?? 0),
+    }))
+    .filter(({ available }) => available > 0)
+    .sort((a, b) => parseISO(a.order.orderDate).getTime() - parseISO(b.order.orderDate).getTime());
   const [error, setError] = useState('');
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const paymentAmount = parseFloat(amount);
+    const paymentAmount = parseRupees(amount);
 
-    if (isNaN(paymentAmount) || paymentAmount <= 0) {
+    if (paymentAmount === undefined || paymentAmount <= 0) {
       setError('Please enter a valid positive amount.');
       return;
     }
@@ -29,7 +58,48 @@ export function PaymentModal({ customer, onClose }: PaymentModalProps) {
       return;
     }
 
-    makePayment(customer.id, paymentAmount, paymentDate);
+    if (method !== 'cash' && !reference.trim()) {
+      setError(`Please enter the ${REFERENCE_LABELS[method]}.`);
+      return;
+    }
+
+    const allocations = allocateManually
+      ? openOrders
+          .map(({ order }) => ({ orderId: order.id, amount: parseRupees(manualAmounts[order.id] || '0') ?? 0 }))
+          .filter(a => a.amount > 0)
+      : [];
+    const overAllocated = openOrders.find(({ order, available }) =>
+      (parseRupees(manualAmounts[order.id] || '0') ?? 0) > available
+    );
+    if (allocateManually && overAllocated) {
+      setError(`Order of ${format(parseISO(overAllocated.order.orderDate), 'MMM dd')} only has ${formatMoney(overAllocated.available)} left to pay.`);
+      return;
+    }
+    if (allocations.reduce((sum, a) => sum + a.amount, 0) > paymentAmount) {
+      setError('The orders chosen add up to more than the payment amount.');
+      return;
+    }
+
+    const details = {
+      amount: paymentAmount,
+      allocations: allocations.length > 0 ? allocations : undefined,
+      paymentDate,
+      method,
+      reference: reference.trim() || undefined,
+      chequeStatus: method === 'cheque' ? chequeStatus : undefined,
+      note: note.trim() || undefined,
+    };
+
+    if (payment) {
+      // A bounced cheque's reversal follows the new amount, so the net stays zero.
+      const newBalance = isBounced
+        ? balance.pendingBalance
+        : balance.pendingBalance + payment.amount - paymentAmount;
+      if (!window.confirm(describeBalanceChange('Save changes to this payment?', balance.pendingBalance, newBalance))) return;
+      updatePayment(payment.id, details);
+    } else {
+      makePayment({ customerId: customer.id, ...details });
+    }
     onClose();
   };
 
@@ -45,15 +115,15 @@ export function PaymentModal({ customer, onClose }: PaymentModalProps) {
         initial={{ opacity: 0, scale: 0.9 }}
         animate={{ opacity: 1, scale: 1 }}
         exit={{ opacity: 0, scale: 0.9 }}
-        className="bg-white rounded-2xl p-6 w-full max-w-md"
+        className="bg-white rounded-2xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto"
         onClick={(e) => e.stopPropagation()}
       >
-        <h2 className="text-2xl font-bold text-gray-900 mb-2">Record Payment</h2>
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">{payment ? 'Edit Payment' : 'Record Payment'}</h2>
         <p className="text-gray-600 mb-6">For customer: <span className="font-medium">{customer.name}</span></p>
         
         <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 rounded-r-lg mb-6">
-          <p className="text-sm text-yellow-800">Current Pending Balance:</p>
-          <p className="text-2xl font-bold text-yellow-900">₹{customer.pendingBalance.toFixed(2)}</p>
+          <p className="text-sm text-yellow-800">{isAdvance(balance.pendingBalance) ? 'Paid in Advance:' : 'Current Pending Balance:'}</p>
+          <p className="text-2xl font-bold text-yellow-900">{formatBalance(balance.pendingBalance)}</p>
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-4">
@@ -91,6 +161,126 @@ export function PaymentModal({ customer, onClose }: PaymentModalProps) {
               />
             </div>
           </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Payment Method
+            </label>
+            <div className="grid grid-cols-4 gap-2">
+              {PAYMENT_METHODS.map(m => (
+                <button
+                  key={m}
+                  type="button"
+                  disabled={isBounced}
+                  onClick={() => {
+                    setMethod(m);
+                    setError('');
+                  }}
+                  className={`px-2 py-2 rounded-lg text-sm font-medium transition-colors duration-200 ${
+                    method === m
+                      ? 'bg-primary-600 text-white'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200 disabled:opacity-50 disabled:hover:bg-gray-100'
+                  }`}
+                >
+                  {PAYMENT_METHOD_LABELS[m]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className={method === 'cheque' ? 'grid grid-cols-2 gap-4' : ''}>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {REFERENCE_LABELS[method]}{method === 'cash' && ' (optional)'}
+              </label>
+              <input
+                type="text"
+                value={reference}
+                onChange={(e) => {
+                  setReference(e.target.value);
+                  setError('');
+                }}
+                className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                placeholder={REFERENCE_LABELS[method]}
+              />
+            </div>
+            {method === 'cheque' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Cheque Status
+                </label>
+                <select
+                  value={chequeStatus}
+                  onChange={(e) => setChequeStatus(e.target.value as ChequeStatus)}
+                  disabled={isBounced}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none disabled:bg-gray-100"
+                >
+                  {Object.entries(CHEQUE_STATUS_LABELS)
+                    .filter(([value]) => isBounced || value !== 'bounced')
+                    .map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                </select>
+              </div>
+            )}
+          </div>
+
+          {!isBounced && openOrders.length > 0 && (
+            <div>
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={allocateManually}
+                  onChange={(e) => {
+                    setAllocateManually(e.target.checked);
+                    setError('');
+                  }}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                Choose which orders this pays for
+              </label>
+              {allocateManually ? (
+                <div className="mt-3 space-y-2 max-h-48 overflow-y-auto">
+                  {openOrders.map(({ order, available }) => (
+                    <div key={order.id} className="flex items-center justify-between gap-3 text-sm">
+                      <span className="text-gray-700">
+                        {format(parseISO(order.orderDate), 'MMM dd, yyyy')}
+                        <span className="text-gray-500 text-xs"> ({formatMoney(available)} due)</span>
+                      </span>
+                      <input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={manualAmounts[order.id] ?? ''}
+                        onChange={(e) => {
+                          setManualAmounts({ ...manualAmounts, [order.id]: e.target.value });
+                          setError('');
+                        }}
+                        className="w-28 px-3 py-1 border border-gray-300 rounded-lg text-right focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                        placeholder="0.00"
+                      />
+                    </div>
+                  ))}
+                  <p className="text-xs text-gray-500">Anything not assigned here goes to the oldest unpaid orders.</p>
+                </div>
+              ) : (
+                <p className="mt-1 text-xs text-gray-500">The payment settles the oldest unpaid orders first.</p>
+              )}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Note (optional)
+            </label>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+              rows={2}
+              placeholder="e.g. paid by son, part of March bill"
+            />
+          </div>
           {error && <p className="text-red-500 text-sm mt-1">{error}</p>}
           
           <div className="flex gap-3 pt-4">
@@ -105,7 +295,7 @@ export function PaymentModal({ customer, onClose }: PaymentModalProps) {
               type="submit"
               className="flex-1 px-4 py-3 bg-primary-600 text-white rounded-xl font-medium hover:bg-primary-700 transition-colors duration-200"
             >
-              Submit Payment
+              {payment ? 'Save Changes' : 'Submit Payment'}
             </button>
           </div>
         </form>
@@ -0,0 +1,53 @@
+import { motion } from 'framer-motion';
+import { Banknote, Smartphone, FileText, Landmark } from 'lucide-react';
+import { PaymentMethod } from '../../types';
+import { PAYMENT_METHOD_LABELS, PAYMENT_METHODS } from '../../utils/payments';
+import { formatMoney } from '../../utils/money';
+
+interface CollectionBreakdownProps {
+  data: Record<PaymentMethod, number>;
+  total: number;
+}
+
+const methodIcons = {
+  cash: Banknote,
+  upi: Smartphone,
+  cheque: FileText,
+  bank_transfer: Landmark,
+};
+
+export function CollectionBreakdown({ data, total }: CollectionBreakdownProps) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.2 }}
+      className="bg-white rounded-2xl shadow-soft p-6"
+    >
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Collection by Method</h3>
+      <div className="space-y-4">
+        {PAYMENT_METHODS.map(method => {
+          const Icon = methodIcons[method];
+          // Reversals can leave a method below zero on the day; its bar stays empty.
+          const share = total > 0 ? Math.min(100, Math.max(0, (data[method] / total) * 100)) : 0;
+          return (
+            <div key={method} className="p-3 bg-green-50 rounded-xl">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="w-8 h-8 flex items-center justify-center bg-green-100 rounded-lg">
+                    <Icon className="w-5 h-5 text-green-600" />
+                  </div>
+                  <span className="text-sm font-medium text-gray-700">{PAYMENT_METHOD_LABELS[method]}</span>
+                </div>
+                <span className="font-semibold text-green-600">{formatMoney(data[method])}</span>
+              </div>
+              <div className="mt-2 h-1.5 bg-green-100 rounded-full overflow-hidden">
+                <div className="h-full bg-green-500 rounded-full" style={{ width: `${share}%` }} />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+}
@@ -1,9 +1,11 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { Milk } from 'lucide-react';
+import { ProductUnit } from '../../types';
+import { formatQuantity } from '../../utils/units';
 
 interface ProductSalesProps {
-  data: { productName: string; totalQuantity: number }[];
+  data: { productName: string; totalQuantity: number; unit: ProductUnit }[];
 }
 
 export function ProductSales({ data }: ProductSalesProps) {
@@ -27,7 +29,7 @@ export function ProductSales({ data }: ProductSalesProps) {
                 </div>
                 <span className="text-sm font-medium text-gray-700">{item.productName}</span>
               </div>
-              <span className="font-semibold text-blue-600">{item.totalQuantity} units</span>
+              <span className="font-semibold text-blue-600">{formatQuantity(item.totalQuantity, item.unit)}</span>
             </div>
           ))
         )}
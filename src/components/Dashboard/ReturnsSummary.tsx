@@ -0,0 +1,54 @@
+import { motion } from 'framer-motion';
+import { Undo2 } from 'lucide-react';
+import { ProductReturns } from '../../types';
+import { formatQuantity } from '../../utils/units';
+import { formatMoney, sumPaise } from '../../utils/money';
+import { RETURN_REASON_LABELS } from '../../utils/deliveries';
+
+interface ReturnsSummaryProps {
+  data: ProductReturns[];
+}
+
+export function ReturnsSummary({ data }: ReturnsSummaryProps) {
+  const totalValue = sumPaise(data.map(item => item.value));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.25 }}
+      className="bg-white rounded-2xl shadow-soft p-6"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Short Deliveries & Returns</h3>
+        {totalValue > 0 && <span className="text-sm font-medium text-red-600">{formatMoney(totalValue)} not billed</span>}
+      </div>
+      <div className="space-y-4">
+        {data.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">Everything was delivered and kept</p>
+        ) : (
+          data.map((item, index) => (
+            <div key={index} className="p-3 bg-orange-50 rounded-xl">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="w-8 h-8 flex items-center justify-center bg-orange-100 rounded-lg">
+                    <Undo2 className="w-5 h-5 text-orange-600" />
+                  </div>
+                  <span className="text-sm font-medium text-gray-700">{item.productName}</span>
+                </div>
+                <span className="font-semibold text-orange-600">{formatMoney(item.value)}</span>
+              </div>
+              <p className="mt-2 text-xs text-gray-600">
+                {[
+                  item.shortQuantity > 0 ? `${formatQuantity(item.shortQuantity, item.unit)} short` : '',
+                  item.returnedQuantity > 0 ? `${formatQuantity(item.returnedQuantity, item.unit)} returned` : '',
+                ].filter(Boolean).join(', ')}
+                {item.reasons.length > 0 && ` (${item.reasons.map(r => RETURN_REASON_LABELS[r]).join(', ')})`}
+              </p>
+            </div>
+          ))
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -6,6 +6,7 @@ import {
   Package, 
   Users, 
   ShoppingCart, 
+  Repeat,
   FileText, 
   LogOut
 } from 'lucide-react';
@@ -17,6 +18,7 @@ const navigation = [
   { name: 'Products', href: '/products', icon: Package },
   { name: 'Customers', href: '/customers', icon: Users },
   { name: 'Orders', href: '/orders', icon: ShoppingCart },
+  { name: 'Daily', href: '/subscriptions', icon: Repeat },
   { name: 'Statements', href: '/statements', icon: FileText },
 ];
 
@@ -30,7 +32,7 @@ export function BottomNav() {
       transition={{ type: 'spring', stiffness: 300, damping: 30 }}
       className="fixed bottom-0 left-0 right-0 h-20 bg-white/80 backdrop-blur-lg border-t border-gray-200 z-40"
     >
-      <nav className="grid grid-cols-6 h-full max-w-lg mx-auto">
+      <nav className="grid grid-cols-7 h-full max-w-xl mx-auto">
         {navigation.map((item) => (
           <NavLink
             key={item.name}
@@ -1,11 +1,16 @@
 import React from 'react';
 import { motion } from 'framer-motion';
+import { Link } from 'react-router-dom';
+import { Settings } from 'lucide-react';
+import { useSettings } from '../../contexts/SettingsContext';
 
 interface HeaderProps {
   title: string;
 }
 
 export function Header({ title }: HeaderProps) {
+  const { businessProfile } = useSettings();
+
   return (
     <motion.header 
       initial={{ y: -20, opacity: 0 }}
@@ -14,11 +19,21 @@ export function Header({ title }: HeaderProps) {
     >
       <div className="flex items-center justify-between">
         <div className="flex items-center gap-4">
+          {businessProfile.logo && (
+            <img src={businessProfile.logo} alt="" className="w-10 h-10 rounded-xl object-contain" />
+          )}
           <div>
             <h1 className="text-2xl font-bold text-gray-900">{title}</h1>
-            <p className="text-sm text-gray-500">Manage your milk business efficiently</p>
+            <p className="text-sm text-gray-500">{businessProfile.name || 'Manage your milk business efficiently'}</p>
           </div>
         </div>
+        <Link
+          to="/settings"
+          className="p-2 text-gray-400 hover:text-primary-600 hover:bg-primary-50 rounded-lg transition-colors duration-200"
+          title="Settings"
+        >
+          <Settings className="w-6 h-6" />
+        </Link>
       </div>
     </motion.header>
   );
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Order, OrderItem, ReturnReason } from '../../types';
+import { useData } from '../../contexts/DataContext';
+import { useSettings } from '../../contexts/SettingsContext';
+import { calculateOrderTotals } from '../../utils/orders';
+import { getDeliveryStatus, RETURN_REASON_LABELS, RETURN_REASONS } from '../../utils/deliveries';
+import { formatItemQuantity, isValidQuantity, quantityStep } from '../../utils/units';
+import { formatMoney } from '../../utils/money';
+
+interface DeliveryModalProps {
+  order: Order;
+  onClose: () => void;
+}
+
+// Quantities stay as typed until saved, like the order form.
+interface DeliveryLine {
+  delivered: string;
+  returned: string;
+  reason: ReturnReason;
+}
+
+// Packs are always counted whole; loose quantities follow the unit's precision.
+const lineUnit = (item: OrderItem) => item.variantId ? 'piece' : item.unit;
+
+export function DeliveryModal({ order, onClose }: DeliveryModalProps) {
+  const { invoices, updateOrder } = useData();
+  const { settings } = useSettings();
+  const invoice = invoices.find(i => i.id === order.invoiceId);
+  const [lines, setLines] = useState<DeliveryLine[]>(() => order.items.map(item => ({
+    delivered: String(item.deliveredQuantity ?? item.quantity),
+    returned: item.returnedQuantity ? String(item.returnedQuantity) : '',
+    reason: item.returnReason ?? 'spoiled',
+  })));
+  const [error, setError] = useState('');
+
+  const buildItems = (): OrderItem[] => order.items.map((item, index) => {
+    const delivered = parseFloat(lines[index].delivered) || 0;
+    const returned = parseFloat(lines[index].returned) || 0;
+    return {
+      ...item,
+      deliveredQuantity: delivered,
+      returnedQuantity: returned > 0 ? returned : undefined,
+      returnReason: returned > 0 ? lines[index].reason : undefined,
+    };
+  });
+
+  const totals = calculateOrderTotals({ ...order, items: buildItems() }, settings.rounding);
+
+  const updateLine = (index: number, field: keyof DeliveryLine, value: string) => {
+    setLines(lines.map((line, i) => i === index ? { ...line, [field]: value } : line));
+    setError('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const invalid = order.items.find((item, index) => {
+      const delivered = parseFloat(lines[index].delivered);
+      const returned = lines[index].returned ? parseFloat(lines[index].returned) : 0;
+      return !(delivered === 0 || isValidQuantity(delivered, lineUnit(item))) || delivered > item.quantity
+        || !(returned === 0 || isValidQuantity(returned, lineUnit(item))) || returned > delivered;
+    });
+    if (invalid) {
+      setError(`Please check the quantities for ${invalid.productName}: at most what was ordered can be delivered, and at most what was delivered returned.`);
+      return;
+    }
+
+    const items = buildItems();
+    updateOrder(order.id, {
+      items,
+      ...calculateOrderTotals({ ...order, items }, settings.rounding),
+      status: getDeliveryStatus(items),
+      deliveryDate: order.deliveryDate ?? new Date().toISOString(),
+    });
+    onClose();
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.9 }}
+        className="bg-white rounded-2xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Record Delivery</h2>
+        <p className="text-gray-600 mb-6">For customer: <span className="font-medium">{order.customerName}</span></p>
+
+        {invoice && (
+          <div className="bg-yellow-50 border-l-4 border-yellow-400 p-4 rounded-r-lg mb-6">
+            <p className="text-sm text-yellow-800">
+              This order is on invoice {invoice.invoiceNumber}, so its total can no longer change.
+              Give the customer a credit note for the returns instead.
+            </p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {order.items.map((item, index) => (
+            <div key={index} className="p-4 border border-gray-200 rounded-xl space-y-3">
+              <p className="font-medium text-gray-900">
+                {item.productName}
+                <span className="ml-2 text-sm font-normal text-gray-500">ordered {formatItemQuantity(item)}</span>
+              </p>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Delivered</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max={item.quantity}
+                    step={quantityStep(lineUnit(item))}
+                    value={lines[index].delivered}
+                    onChange={(e) => updateLine(index, 'delivered', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                    disabled={!!invoice}
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Returned</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step={quantityStep(lineUnit(item))}
+                    value={lines[index].returned}
+                    onChange={(e) => updateLine(index, 'returned', e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                    placeholder="0"
+                    disabled={!!invoice}
+                  />
+                </div>
+              </div>
+              {parseFloat(lines[index].returned) > 0 && (
+                <select
+                  value={lines[index].reason}
+                  onChange={(e) => updateLine(index, 'reason', e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                  disabled={!!invoice}
+                >
+                  {RETURN_REASONS.map(r => (
+                    <option key={r} value={r}>{RETURN_REASON_LABELS[r]}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          ))}
+
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-600">Billed total</span>
+            <span className="font-semibold text-gray-900">
+              {totals.totalAmount !== order.totalAmount && (
+                <span className="mr-2 font-normal text-gray-400 line-through">{formatMoney(order.totalAmount)}</span>
+              )}
+              {formatMoney(totals.totalAmount)}
+            </span>
+          </div>
+          {error && <p className="text-red-500 text-sm mt-1">{error}</p>}
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-xl font-medium hover:bg-gray-50 transition-colors duration-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!!invoice}
+              className="flex-1 px-4 py-3 bg-primary-600 text-white rounded-xl font-medium hover:bg-primary-700 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save Delivery
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </motion.div>
+  );
+}
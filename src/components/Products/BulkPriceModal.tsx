@@ -0,0 +1,229 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { addDays, format, parseISO } from 'date-fns';
+import { PriceChangeType } from '../../types';
+import { useData } from '../../contexts/DataContext';
+import { applyBulkPriceChange, getCustomerRateCards, getProductPriceOn } from '../../utils/pricing';
+import { buildOrderItems, calculateOrderTotal } from '../../utils/orders';
+import { DEFAULT_UNIT, UNITS } from '../../utils/units';
+import { formatMoney, toPaise } from '../../utils/money';
+
+interface BulkPriceModalProps {
+  onClose: () => void;
+}
+
+export function BulkPriceModal({ onClose }: BulkPriceModalProps) {
+  const { products, customers, subscriptions, rateCards, changePrices } = useData();
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [type, setType] = useState<PriceChangeType>('percent');
+  const [value, setValue] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState(format(addDays(new Date(), 1), 'yyyy-MM-dd'));
+  const [selectedIds, setSelectedIds] = useState<string[]>(products.map(p => p.id));
+  const [error, setError] = useState('');
+
+  const changeValue = parseFloat(value);
+  const isValid = !isNaN(changeValue) && changeValue !== 0 && !!effectiveFrom;
+  // Amounts are typed in rupees; the price history works in paise.
+  const amount = type === 'percent' ? changeValue : toPaise(changeValue);
+
+  const changedProducts = useMemo(() => isValid
+    ? products.map(p => selectedIds.includes(p.id) ? applyBulkPriceChange(p, effectiveFrom, type, amount, today) : p)
+    : products,
+    [products, selectedIds, effectiveFrom, type, amount, isValid, today]
+  );
+
+  // Subscriptions still delivering on or after the change date that carry a changed product.
+  const affectedSubscriptions = useMemo(() => subscriptions
+    .filter(s => s.active && (!s.endDate || s.endDate >= effectiveFrom))
+    .filter(s => s.items.some(item => selectedIds.includes(item.productId)))
+    .map(s => {
+      // Items on a special rate keep it, so only their list-priced items move.
+      const rates = getCustomerRateCards(customers.find(c => c.id === s.customerId), rateCards);
+      return {
+        subscription: s,
+        before: calculateOrderTotal(buildOrderItems(s.items, products, effectiveFrom, rates)),
+        after: calculateOrderTotal(buildOrderItems(s.items, changedProducts, effectiveFrom, rates)),
+      };
+    }),
+    [subscriptions, selectedIds, effectiveFrom, products, changedProducts, customers, rateCards]
+  );
+
+  const toggleProduct = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]);
+    setError('');
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid) {
+      setError('Please enter a non-zero change and a start date.');
+      return;
+    }
+    if (selectedIds.length === 0) {
+      setError('Please select at least one product.');
+      return;
+    }
+    const label = type === 'percent' ? `${changeValue}%` : formatMoney(amount);
+    if (!window.confirm(
+      `Change ${selectedIds.length} product price(s) by ${label} from ${format(parseISO(effectiveFrom), 'MMM dd, yyyy')}?\n` +
+      `${affectedSubscriptions.length} subscription(s) will be charged the new rate from that day.`
+    )) return;
+    changePrices(selectedIds, effectiveFrom, type, amount);
+    onClose();
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.9 }}
+        className="bg-white rounded-2xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-2xl font-bold text-gray-900 mb-6">Bulk Price Change</h2>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Change By
+              </label>
+              <select
+                value={type}
+                onChange={(e) => setType(e.target.value as PriceChangeType)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+              >
+                <option value="percent">Percent (%)</option>
+                <option value="amount">Amount (₹)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                {type === 'percent' ? 'Percent' : 'Amount'}
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                value={value}
+                onChange={(e) => {
+                  setValue(e.target.value);
+                  setError('');
+                }}
+                className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                placeholder={type === 'percent' ? 'e.g. 5' : 'e.g. 2'}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Effective From
+              </label>
+              <input
+                type="date"
+                value={effectiveFrom}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                required
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">Use a negative value to lower prices. Packs change by the same amount or percent.</p>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Products
+              </label>
+              <button
+                type="button"
+                onClick={() => setSelectedIds(selectedIds.length === products.length ? [] : products.map(p => p.id))}
+                className="text-primary-600 hover:text-primary-700 text-sm font-medium"
+              >
+                {selectedIds.length === products.length ? 'Clear all' : 'Select all'}
+              </button>
+            </div>
+            <div className="border border-gray-200 rounded-xl divide-y divide-gray-100 max-h-56 overflow-y-auto">
+              {products.map(product => {
+                const changed = changedProducts.find(p => p.id === product.id) ?? product;
+                const before = getProductPriceOn(product, effectiveFrom);
+                const after = getProductPriceOn(changed, effectiveFrom);
+                return (
+                  <label key={product.id} className="flex items-center justify-between px-4 py-2 text-sm cursor-pointer hover:bg-gray-50">
+                    <span className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(product.id)}
+                        onChange={() => toggleProduct(product.id)}
+                        className="w-4 h-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                      />
+                      {product.name}
+                    </span>
+                    <span className="text-gray-600">
+                      {formatMoney(before)}
+                      {after !== before && <span className="font-semibold text-gray-900"> → {formatMoney(after)}</span>}
+                      <span className="text-gray-400"> / {UNITS[product.unit ?? DEFAULT_UNIT].short}</span>
+                    </span>
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">
+              Affected Subscriptions ({affectedSubscriptions.length})
+            </h3>
+            {affectedSubscriptions.length > 0 ? (
+              <div className="border border-gray-200 rounded-xl overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th className="text-left px-4 py-2 font-medium">Customer</th>
+                      <th className="text-right px-4 py-2 font-medium">Per Delivery</th>
+                      <th className="text-right px-4 py-2 font-medium">New</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {affectedSubscriptions.map(({ subscription, before, after }) => (
+                      <tr key={subscription.id}>
+                        <td className="px-4 py-2 text-gray-900">{subscription.customerName}</td>
+                        <td className="px-4 py-2 text-right text-gray-600">{formatMoney(before)}</td>
+                        <td className="px-4 py-2 text-right font-semibold text-gray-900">{formatMoney(after)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-gray-500 text-sm">No active subscriptions use these products from that date.</p>
+            )}
+          </div>
+
+          {error && <p className="text-red-500 text-sm">{error}</p>}
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-xl font-medium hover:bg-gray-50 transition-colors duration-200"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-3 bg-primary-600 text-white rounded-xl font-medium hover:bg-primary-700 transition-colors duration-200"
+            >
+              Apply Change
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </motion.div>
+  );
+}
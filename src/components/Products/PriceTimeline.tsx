@@ -0,0 +1,50 @@
+import { format, parseISO } from 'date-fns';
+import { Product } from '../../types';
+import { getPriceHistory, getPriceVersionOn } from '../../utils/pricing';
+import { formatMoney } from '../../utils/money';
+
+interface PriceTimelineProps {
+  product: Product;
+}
+
+export function PriceTimeline({ product }: PriceTimelineProps) {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const history = getPriceHistory(product);
+  const current = getPriceVersionOn(product, today);
+
+  return (
+    <ol className="mt-3 border-l-2 border-gray-200 pl-4 space-y-3">
+      {history.map((version, index) => {
+        const previous = history[index - 1];
+        const change = previous ? version.price - previous.price : 0;
+        return (
+          <li key={version.effectiveFrom} className="relative">
+            <span className={`absolute -left-[1.4rem] top-1.5 w-2.5 h-2.5 rounded-full ${
+              version.effectiveFrom === current.effectiveFrom ? 'bg-primary-600' : version.effectiveFrom > today ? 'bg-yellow-400' : 'bg-gray-300'
+            }`} />
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-600">
+                {format(parseISO(version.effectiveFrom), 'MMM dd, yyyy')}
+                {version.effectiveFrom > today && <span className="ml-2 text-xs text-yellow-700">Scheduled</span>}
+              </span>
+              <span className="font-semibold text-gray-900">{formatMoney(version.price)}</span>
+            </div>
+            {previous && change !== 0 && (
+              <p className={`text-xs ${change > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                {change > 0 ? '+' : ''}{formatMoney(change)} from {formatMoney(previous.price)}
+              </p>
+            )}
+            {product.variants?.some(v => version.variantPrices?.[v.id] !== undefined) && (
+              <p className="text-xs text-gray-500">
+                {product.variants
+                  .filter(v => version.variantPrices?.[v.id] !== undefined)
+                  .map(v => `${v.name} ${formatMoney(version.variantPrices![v.id])}`)
+                  .join(', ')}
+              </p>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
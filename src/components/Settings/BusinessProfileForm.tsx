@@ -0,0 +1,235 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Building2, Upload, X } from 'lucide-react';
+import { useSettings } from '../../contexts/SettingsContext';
+import { isValidGstin } from '../../utils/gst';
+
+// Logos are kept in localStorage as data URLs, so they have to stay small.
+const MAX_LOGO_BYTES = 200 * 1024;
+
+const inputClass = 'w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none';
+
+export function BusinessProfileForm() {
+  const { businessProfile, updateBusinessProfile } = useSettings();
+  const [formData, setFormData] = useState({
+    name: businessProfile.name,
+    address: businessProfile.address ?? '',
+    phone: businessProfile.phone ?? '',
+    gstin: businessProfile.gstin ?? '',
+    bankDetails: businessProfile.bankDetails ?? '',
+    upiId: businessProfile.upiId ?? '',
+    footerTerms: businessProfile.footerTerms ?? '',
+  });
+  const [logo, setLogo] = useState(businessProfile.logo);
+  const [error, setError] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  const updateField = (field: keyof typeof formData, value: string) => {
+    setFormData({ ...formData, [field]: value });
+    setError('');
+    setSaved(false);
+  };
+
+  const handleLogo = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      setError('The logo must be a PNG or JPEG image.');
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      setError('The logo must be smaller than 200 KB.');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () => {
+      setLogo(reader.result as string);
+      setError('');
+      setSaved(false);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = formData.name.trim();
+    const gstin = formData.gstin.trim().toUpperCase();
+
+    if (!name) {
+      setError('Please enter the business name.');
+      return;
+    }
+    if (gstin && !isValidGstin(gstin)) {
+      setError('Please enter a valid 15-character GSTIN.');
+      return;
+    }
+
+    updateBusinessProfile({
+      name,
+      address: formData.address.trim() || undefined,
+      phone: formData.phone.trim() || undefined,
+      gstin: gstin || undefined,
+      logo,
+      bankDetails: formData.bankDetails.trim() || undefined,
+      upiId: formData.upiId.trim() || undefined,
+      footerTerms: formData.footerTerms.trim() || undefined,
+    });
+    setFormData({ ...formData, name, gstin });
+    setSaved(true);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-2xl shadow-soft p-6 max-w-2xl mb-6"
+    >
+      <div className="flex items-center gap-3 mb-2">
+        <div className="w-10 h-10 bg-primary-100 rounded-xl flex items-center justify-center">
+          <Building2 className="w-5 h-5 text-primary-600" />
+        </div>
+        <h2 className="text-xl font-semibold text-gray-900">Business Profile</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Printed on bills, receipts, milk cards and statements, and shown at the top of every page.
+      </p>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="flex items-center gap-4">
+          <div className="w-20 h-20 border-2 border-dashed border-gray-300 rounded-xl flex items-center justify-center overflow-hidden">
+            {logo ? (
+              <img src={logo} alt="Logo" className="w-full h-full object-contain" />
+            ) : (
+              <span className="text-xs text-gray-400">No logo</span>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <label className="inline-flex items-center gap-2 px-3 py-2 border border-gray-300 text-gray-700 rounded-xl text-sm font-medium hover:bg-gray-50 cursor-pointer transition-colors duration-200">
+              <Upload className="w-4 h-4" />
+              Upload Logo
+              <input type="file" accept="image/png,image/jpeg" onChange={handleLogo} className="hidden" />
+            </label>
+            {logo && (
+              <button
+                type="button"
+                onClick={() => {
+                  setLogo(undefined);
+                  setSaved(false);
+                }}
+                className="inline-flex items-center gap-1 px-3 py-2 text-red-600 hover:bg-red-50 rounded-xl text-sm font-medium transition-colors duration-200"
+              >
+                <X className="w-4 h-4" />
+                Remove
+              </button>
+            )}
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Business Name
+          </label>
+          <input
+            type="text"
+            value={formData.name}
+            onChange={(e) => updateField('name', e.target.value)}
+            className={inputClass}
+            placeholder="Business name"
+            required
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Address
+          </label>
+          <textarea
+            value={formData.address}
+            onChange={(e) => updateField('address', e.target.value)}
+            className={`${inputClass} resize-none`}
+            placeholder="Address"
+            rows={2}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Phone
+            </label>
+            <input
+              type="tel"
+              value={formData.phone}
+              onChange={(e) => updateField('phone', e.target.value)}
+              className={inputClass}
+              placeholder="Phone number"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              GSTIN (optional)
+            </label>
+            <input
+              type="text"
+              value={formData.gstin}
+              onChange={(e) => updateField('gstin', e.target.value)}
+              className={`${inputClass} uppercase`}
+              placeholder="e.g. 24AAACJ1234A1ZH"
+              maxLength={15}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Bank Details
+            </label>
+            <textarea
+              value={formData.bankDetails}
+              onChange={(e) => updateField('bankDetails', e.target.value)}
+              className={`${inputClass} resize-none`}
+              placeholder={'A/c name, number\nIFSC'}
+              rows={2}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              UPI ID
+            </label>
+            <input
+              type="text"
+              value={formData.upiId}
+              onChange={(e) => updateField('upiId', e.target.value)}
+              className={inputClass}
+              placeholder="e.g. dairy@upi"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Footer Terms
+          </label>
+          <textarea
+            value={formData.footerTerms}
+            onChange={(e) => updateField('footerTerms', e.target.value)}
+            className={`${inputClass} resize-none`}
+            placeholder="e.g. Please pay by the 10th of every month."
+            rows={2}
+          />
+        </div>
+
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+        {saved && <p className="text-green-600 text-sm">Business profile saved.</p>}
+
+        <button
+          type="submit"
+          className="px-6 py-3 bg-primary-600 text-white rounded-xl font-medium hover:bg-primary-700 transition-colors duration-200"
+        >
+          Save Profile
+        </button>
+      </form>
+    </motion.div>
+  );
+}
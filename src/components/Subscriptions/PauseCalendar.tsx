@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { useData } from '../../contexts/DataContext';
+import { addMonths, eachDayOfInterval, endOfMonth, format, getDay, isToday, startOfMonth } from 'date-fns';
+import { WEEKDAY_LABELS } from '../../utils/subscriptions';
+
+export function PauseCalendar() {
+  const { pauses, products } = useData();
+  const [month, setMonth] = useState(startOfMonth(new Date()));
+
+  const days = eachDayOfInterval({ start: month, end: endOfMonth(month) });
+
+  const pausesOn = (date: string) =>
+    pauses.filter(pause => pause.startDate <= date && pause.endDate >= date);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-2xl shadow-soft p-6 mb-6"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Paused Deliveries</h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setMonth(addMonths(month, -1))}
+            className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <span className="text-sm font-medium text-gray-700 w-28 text-center">{format(month, 'MMMM yyyy')}</span>
+          <button
+            onClick={() => setMonth(addMonths(month, 1))}
+            className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg"
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center">
+        {WEEKDAY_LABELS.map(label => (
+          <div key={label} className="text-xs font-medium text-gray-500 py-1">{label}</div>
+        ))}
+        {Array.from({ length: getDay(month) }).map((_, index) => (
+          <div key={`blank-${index}`} />
+        ))}
+        {days.map(day => {
+          const dayPauses = pausesOn(format(day, 'yyyy-MM-dd'));
+          return (
+            <div
+              key={day.toISOString()}
+              className={`min-h-16 rounded-lg p-1 text-left border ${
+                isToday(day) ? 'border-primary-400' : 'border-gray-100'
+              } ${dayPauses.length > 0 ? 'bg-yellow-50' : ''}`}
+            >
+              <p className="text-xs font-semibold text-gray-700">{format(day, 'd')}</p>
+              {dayPauses.map(pause => (
+                <p
+                  key={pause.id}
+                  className="text-[10px] leading-tight text-yellow-800 truncate"
+                  title={pause.note}
+                >
+                  {pause.customerName}
+                  {pause.productId && ` (${products.find(p => p.id === pause.productId)?.name || '?'})`}
+                </p>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </motion.div>
+  );
+}
@@ -1,27 +1,71 @@
-import React, { createContext, useContext } from 'react';
-import { Product, Customer, Order, DashboardStats, Payment } from '../types';
+import React, { createContext, useContext, useEffect, useMemo, useRef } from 'react';
+import { Product, Customer, Order, DashboardStats, Payment, CustomerBalance, LedgerEntry, Subscription, SubscriptionPreview, PausePeriod, BillingRun, FilterOptions, PaymentMethod, OrderPaymentInfo, PaymentAllocation, ProductUnit, PriceVersion, PriceChangeType, RateCard, Invoice, Adjustment, ProductReturns } from '../types';
 import { useLocalStorage } from '../hooks/useLocalStorage';
-import { startOfDay, endOfDay, isWithinInterval, parseISO } from 'date-fns';
+import { useSettings } from './SettingsContext';
+import { buildLedgerEntries, computeCustomerBalances, emptyBalance } from '../utils/ledger';
+import { previewSubscriptionOrders } from '../utils/subscriptions';
+import { allocatePayments, getOrderPaymentStatus } from '../utils/allocation';
+import { createBills } from '../utils/billing';
+import { createInvoice, getFinancialYear, getNextInvoiceSequence } from '../utils/invoice';
+import { getLinkedPaymentIds, PAYMENT_METHODS } from '../utils/payments';
+import { baseQuantity, billedQuantity, DEFAULT_UNIT } from '../utils/units';
+import { getShortQuantity } from '../utils/deliveries';
+import { applyBulkPriceChange, getCustomerRateCards, getPriceHistory, upsertPriceVersion, withPriceHistory } from '../utils/pricing';
+import { startOfDay, endOfDay, isWithinInterval, parseISO, format } from 'date-fns';
 
 interface DataContextType {
   products: Product[];
   customers: Customer[];
   orders: Order[];
   payments: Payment[];
+  subscriptions: Subscription[];
+  pauses: PausePeriod[];
+  billingRuns: BillingRun[];
+  rateCards: RateCard[];
+  invoices: Invoice[];
+  adjustments: Adjustment[];
+  ledger: LedgerEntry[];
   addProduct: (product: Omit<Product, 'id' | 'createdAt'>) => void;
   updateProduct: (id: string, product: Partial<Product>) => void;
+  setProductPrice: (id: string, version: PriceVersion) => void;
+  changePrices: (productIds: string[], effectiveFrom: string, type: PriceChangeType, value: number) => void;
   deleteProduct: (id: string) => void;
-  addCustomer: (customer: Omit<Customer, 'id' | 'createdAt' | 'totalOrders' | 'totalAmount' | 'paidAmount' | 'pendingBalance'>) => void;
+  addCustomer: (customer: Omit<Customer, 'id' | 'createdAt'>) => void;
   updateCustomer: (id: string, customer: Partial<Customer>) => void;
-  deleteCustomer: (id: string) => void;
+  deleteCustomer: (id: string) => boolean;
+  addRateCard: (rateCard: Omit<RateCard, 'id' | 'createdAt'>) => void;
+  updateRateCard: (id: string, rateCard: Partial<RateCard>) => void;
+  deleteRateCard: (id: string) => void;
+  getCustomerRates: (customerId: string) => RateCard[];
   addOrder: (order: Omit<Order, 'id' | 'createdAt'>) => void;
   updateOrder: (id: string, order: Partial<Order>) => void;
-  deleteOrder: (id: string) => void;
-  makePayment: (customerId: string, amount: number, paymentDate: string) => void;
+  deleteOrder: (id: string) => boolean;
+  makePayment: (payment: Omit<Payment, 'id' | 'createdAt' | 'customerName'>) => void;
+  updatePayment: (id: string, payment: Partial<Payment>) => void;
+  deletePayment: (id: string) => void;
+  reversePayment: (id: string, reversalDate: string) => void;
+  addAdjustment: (adjustment: Omit<Adjustment, 'id' | 'createdAt' | 'customerName'>) => void;
+  deleteAdjustment: (id: string) => void;
+  addSubscription: (subscription: Omit<Subscription, 'id' | 'createdAt' | 'customerName' | 'skippedDates'>) => void;
+  updateSubscription: (id: string, subscription: Partial<Subscription>) => void;
+  deleteSubscription: (id: string) => void;
+  setSubscriptionSkipped: (id: string, date: string, skipped: boolean) => void;
+  addPause: (pause: Omit<PausePeriod, 'id' | 'createdAt' | 'customerName'>) => void;
+  deletePause: (id: string) => void;
+  getSubscriptionPreview: (date: string) => SubscriptionPreview[];
+  generateSubscriptionOrders: (date: string) => number;
+  createBillingRun: (periodFrom: string, periodTo: string) => BillingRun | null;
+  issueInvoice: (customerId: string, orderIds: string[], period?: { from: string; to: string }) => Invoice | null;
+  cancelInvoice: (id: string) => void;
+  getCustomerBalance: (customerId: string) => CustomerBalance;
+  getOrderPaymentInfo: (order: Order) => OrderPaymentInfo;
+  getPaymentAllocations: (paymentId: string) => PaymentAllocation[];
   getDashboardStats: (date?: string) => DashboardStats;
-  getFilteredOrders: (filters: any) => Order[];
-  getFilteredPayments: (filters: any) => Payment[];
-  getDailyProductSales: (date: string) => { productName: string; totalQuantity: number }[];
+  getFilteredOrders: (filters: FilterOptions) => Order[];
+  getFilteredPayments: (filters: FilterOptions) => Payment[];
+  getFilteredAdjustments: (filters: FilterOptions) => Adjustment[];
+  getDailyProductSales: (date: string) => { productName: string; totalQuantity: number; unit: ProductUnit }[];
+  getDailyReturns: (date: string) => ProductReturns[];
 }
 
 const DataContext = createContext<DataContextType | undefined>(undefined);
@@ -31,6 +75,17 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
   const [customers, setCustomers] = useLocalStorage<Customer[]>('customers', []);
   const [orders, setOrders] = useLocalStorage<Order[]>('orders', []);
   const [payments, setPayments] = useLocalStorage<Payment[]>('payments', []);
+  const [subscriptions, setSubscriptions] = useLocalStorage<Subscription[]>('subscriptions', []);
+  const [pauses, setPauses] = useLocalStorage<PausePeriod[]>('pauses', []);
+  const [billingRuns, setBillingRuns] = useLocalStorage<BillingRun[]>('billingRuns', []);
+  const [rateCards, setRateCards] = useLocalStorage<RateCard[]>('rateCards', []);
+  const [invoices, setInvoices] = useLocalStorage<Invoice[]>('invoices', []);
+  const [adjustments, setAdjustments] = useLocalStorage<Adjustment[]>('adjustments', []);
+  const { settings, businessProfile } = useSettings();
+
+  const ledger = useMemo(() => buildLedgerEntries(orders, payments, adjustments), [orders, payments, adjustments]);
+  const balances = useMemo(() => computeCustomerBalances(ledger), [ledger]);
+  const allocation = useMemo(() => allocatePayments(orders, payments, adjustments), [orders, payments, adjustments]);
 
   const addProduct = (product: Omit<Product, 'id' | 'createdAt'>) => {
     const newProduct: Product = {
@@ -38,37 +93,102 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
       id: Math.random().toString(36).substr(2, 9),
       createdAt: new Date().toISOString(),
     };
-    setProducts([...products, newProduct]);
+    setProducts(prev => [...prev, { ...newProduct, priceHistory: getPriceHistory(newProduct) }]);
   };
 
+  // Prices are owned by the history; change them through setProductPrice.
   const updateProduct = (id: string, updatedProduct: Partial<Product>) => {
-    setProducts(products.map(p => p.id === id ? { ...p, ...updatedProduct } : p));
+    const today = format(new Date(), 'yyyy-MM-dd');
+    setProducts(prev => prev.map(p => p.id === id
+      ? withPriceHistory({ ...p, ...updatedProduct }, getPriceHistory(p), today)
+      : p
+    ));
+  };
+
+  // Orders keep the price they were created with; a new version only affects
+  // orders entered afterwards for days on or after `effectiveFrom`.
+  const setProductPrice = (id: string, version: PriceVersion) => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    setProducts(prev => prev.map(p => p.id === id
+      ? withPriceHistory(p, upsertPriceVersion(getPriceHistory(p), version), today)
+      : p
+    ));
+  };
+
+  const changePrices = (productIds: string[], effectiveFrom: string, type: PriceChangeType, value: number) => {
+    const today = format(new Date(), 'yyyy-MM-dd');
+    setProducts(prev => prev.map(p => productIds.includes(p.id)
+      ? applyBulkPriceChange(p, effectiveFrom, type, value, today)
+      : p
+    ));
   };
 
   const deleteProduct = (id: string) => {
-    setProducts(products.filter(p => p.id !== id));
+    setProducts(prev => prev.filter(p => p.id !== id));
+    setRateCards(prev => prev.filter(r => r.productId !== id));
   };
 
-  const addCustomer = (customer: Omit<Customer, 'id' | 'createdAt' | 'totalOrders' | 'totalAmount' | 'paidAmount' | 'pendingBalance'>) => {
+  const addCustomer = (customer: Omit<Customer, 'id' | 'createdAt'>) => {
     const newCustomer: Customer = {
       ...customer,
       id: Math.random().toString(36).substr(2, 9),
-      totalOrders: 0,
-      totalAmount: 0,
-      paidAmount: 0,
-      pendingBalance: 0,
       createdAt: new Date().toISOString(),
     };
-    setCustomers([...customers, newCustomer]);
+    setCustomers(prev => [...prev, newCustomer]);
   };
 
   const updateCustomer = (id: string, updatedCustomer: Partial<Customer>) => {
-    setCustomers(customers.map(c => c.id === id ? { ...c, ...updatedCustomer } : c));
+    setCustomers(prev => prev.map(c => c.id === id ? { ...c, ...updatedCustomer } : c));
+    const name = updatedCustomer.name;
+    if (name) {
+      setSubscriptions(prev => prev.map(s => s.customerId === id ? { ...s, customerName: name } : s));
+      setPauses(prev => prev.map(p => p.customerId === id ? { ...p, customerName: name } : p));
+    }
+  };
+
+  // A customer with live tax invoices stays, like their invoiced orders; the
+  // invoices have to be cancelled first.
+  const deleteCustomer = (id: string): boolean => {
+    if (invoices.some(i => i.customerId === id && !i.cancelled)) return false;
+    setCustomers(prev => prev.filter(c => c.id !== id));
+    setOrders(prev => prev.filter(o => o.customerId !== id));
+    setPayments(prev => prev.filter(p => p.customerId !== id));
+    setAdjustments(prev => prev.filter(a => a.customerId !== id));
+    setSubscriptions(prev => prev.filter(s => s.customerId !== id));
+    setPauses(prev => prev.filter(p => p.customerId !== id));
+    setRateCards(prev => prev.filter(r => r.customerId !== id));
+    return true;
+  };
+
+  // A new card replaces the existing one for the same customer or group and
+  // item, so there is at most one special price to resolve.
+  const addRateCard = (rateCard: Omit<RateCard, 'id' | 'createdAt'>) => {
+    const newRateCard: RateCard = {
+      ...rateCard,
+      id: Math.random().toString(36).substr(2, 9),
+      createdAt: new Date().toISOString(),
+    };
+    setRateCards(prev => [
+      ...prev.filter(r => !(
+        r.productId === rateCard.productId &&
+        r.variantId === rateCard.variantId &&
+        r.customerId === rateCard.customerId &&
+        r.group === rateCard.group
+      )),
+      newRateCard,
+    ]);
+  };
+
+  const updateRateCard = (id: string, updatedRateCard: Partial<RateCard>) => {
+    setRateCards(prev => prev.map(r => r.id === id ? { ...r, ...updatedRateCard } : r));
   };
 
-  const deleteCustomer = (id: string) => {
-    setCustomers(customers.filter(c => c.id !== id));
-    setOrders(orders.filter(o => o.customerId !== id));
+  const deleteRateCard = (id: string) => {
+    setRateCards(prev => prev.filter(r => r.id !== id));
+  };
+
+  const getCustomerRates = (customerId: string): RateCard[] => {
+    return getCustomerRateCards(customers.find(c => c.id === customerId), rateCards);
   };
 
   const addOrder = (order: Omit<Order, 'id' | 'createdAt'>) => {
@@ -77,48 +197,252 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
       id: Math.random().toString(36).substr(2, 9),
       createdAt: new Date().toISOString(),
     };
-    setOrders([...orders, newOrder]);
-
-    const customer = customers.find(c => c.id === order.customerId);
-    if (customer) {
-      updateCustomer(customer.id, {
-        totalOrders: customer.totalOrders + 1,
-        totalAmount: customer.totalAmount + order.totalAmount,
-        pendingBalance: customer.pendingBalance + order.totalAmount,
-      });
-    }
+    setOrders(prev => [...prev, newOrder]);
   };
 
   const updateOrder = (id: string, updatedOrder: Partial<Order>) => {
-    setOrders(orders.map(o => o.id === id ? { ...o, ...updatedOrder } : o));
+    setOrders(prev => prev.map(o => o.id === id ? { ...o, ...updatedOrder } : o));
   };
 
-  const deleteOrder = (id: string) => {
-    setOrders(orders.filter(o => o.id !== id));
+  // An invoiced order stays until its invoice is cancelled.
+  const deleteOrder = (id: string): boolean => {
+    const order = orders.find(o => o.id === id);
+    if (order?.invoiceId) return false;
+    // Deleting a generated order counts as skipping that day, otherwise the
+    // generator would simply recreate it the next time the app opens.
+    if (order?.subscriptionId) {
+      setSubscriptionSkipped(order.subscriptionId, order.orderDate, true);
+    }
+    setOrders(prev => prev.filter(o => o.id !== id));
+    // A credit given against the order still stands; it just settles other orders now.
+    setAdjustments(prev => prev.map(a => a.orderId === id ? { ...a, orderId: undefined } : a));
+    return true;
   };
   
-  const makePayment = (customerId: string, amount: number, paymentDate: string) => {
-    const customer = customers.find(c => c.id === customerId);
+  const makePayment = (payment: Omit<Payment, 'id' | 'createdAt' | 'customerName'>) => {
+    const customer = customers.find(c => c.id === payment.customerId);
     if (customer) {
-      const newPaidAmount = customer.paidAmount + amount;
-      const newPendingBalance = Math.max(0, customer.pendingBalance - amount);
-      updateCustomer(customerId, {
-        paidAmount: newPaidAmount,
-        pendingBalance: newPendingBalance,
-      });
-
       const newPayment: Payment = {
+        ...payment,
         id: Math.random().toString(36).substr(2, 9),
-        customerId,
         customerName: customer.name,
-        amount,
-        paymentDate,
         createdAt: new Date().toISOString(),
       };
-      setPayments([...payments, newPayment]);
+      setPayments(prev => [...prev, newPayment]);
     }
   };
 
+  // A reversal always mirrors the amount of the payment it undoes.
+  const updatePayment = (id: string, updatedPayment: Partial<Payment>) => {
+    setPayments(prev => prev.map(p => {
+      if (p.id === id) return { ...p, ...updatedPayment };
+      if (p.reversalOf === id && updatedPayment.amount !== undefined) return { ...p, amount: -updatedPayment.amount };
+      return p;
+    }));
+  };
+
+  // Removing a reversal means the cheque did clear after all.
+  const deletePayment = (id: string) => {
+    setPayments(prev => {
+      const removed = getLinkedPaymentIds(prev, id);
+      const reversedId = prev.find(p => p.id === id)?.reversalOf;
+      return prev
+        .filter(p => !removed.includes(p.id))
+        .map(p => p.id === reversedId ? { ...p, chequeStatus: 'cleared' as const } : p);
+    });
+  };
+
+  // The original payment stays on record; a negative entry cancels it out.
+  const reversePayment = (id: string, reversalDate: string) => {
+    const payment = payments.find(p => p.id === id);
+    if (!payment) return;
+
+    const reversal: Payment = {
+      id: Math.random().toString(36).substr(2, 9),
+      customerId: payment.customerId,
+      customerName: payment.customerName,
+      amount: -payment.amount,
+      paymentDate: reversalDate,
+      method: payment.method,
+      reference: payment.reference,
+      reversalOf: payment.id,
+      createdAt: new Date().toISOString(),
+    };
+    setPayments(prev => [
+      ...prev.map(p => p.id === id ? { ...p, chequeStatus: 'bounced' as const } : p),
+      reversal,
+    ]);
+  };
+
+  const addAdjustment = (adjustment: Omit<Adjustment, 'id' | 'createdAt' | 'customerName'>) => {
+    const customer = customers.find(c => c.id === adjustment.customerId);
+    if (customer) {
+      const newAdjustment: Adjustment = {
+        ...adjustment,
+        id: Math.random().toString(36).substr(2, 9),
+        customerName: customer.name,
+        createdAt: new Date().toISOString(),
+      };
+      setAdjustments(prev => [...prev, newAdjustment]);
+    }
+  };
+
+  const deleteAdjustment = (id: string) => {
+    setAdjustments(prev => prev.filter(a => a.id !== id));
+  };
+
+  const addSubscription = (subscription: Omit<Subscription, 'id' | 'createdAt' | 'customerName' | 'skippedDates'>) => {
+    const customer = customers.find(c => c.id === subscription.customerId);
+    if (!customer) return;
+
+    const newSubscription: Subscription = {
+      ...subscription,
+      id: Math.random().toString(36).substr(2, 9),
+      customerName: customer.name,
+      skippedDates: [],
+      createdAt: new Date().toISOString(),
+    };
+    setSubscriptions(prev => [...prev, newSubscription]);
+  };
+
+  const updateSubscription = (id: string, updatedSubscription: Partial<Subscription>) => {
+    const customer = updatedSubscription.customerId
+      ? customers.find(c => c.id === updatedSubscription.customerId)
+      : undefined;
+    setSubscriptions(prev => prev.map(s => s.id === id
+      ? { ...s, ...updatedSubscription, ...(customer ? { customerName: customer.name } : {}) }
+      : s
+    ));
+  };
+
+  const deleteSubscription = (id: string) => {
+    setSubscriptions(prev => prev.filter(s => s.id !== id));
+  };
+
+  const setSubscriptionSkipped = (id: string, date: string, skipped: boolean) => {
+    setSubscriptions(prev => prev.map(s => {
+      if (s.id !== id) return s;
+      const skippedDates = s.skippedDates.filter(d => d !== date);
+      return { ...s, skippedDates: skipped ? [...skippedDates, date] : skippedDates };
+    }));
+  };
+
+  const addPause = (pause: Omit<PausePeriod, 'id' | 'createdAt' | 'customerName'>) => {
+    const customer = customers.find(c => c.id === pause.customerId);
+    if (!customer) return;
+
+    const newPause: PausePeriod = {
+      ...pause,
+      id: Math.random().toString(36).substr(2, 9),
+      customerName: customer.name,
+      createdAt: new Date().toISOString(),
+    };
+    setPauses(prev => [...prev, newPause]);
+  };
+
+  const deletePause = (id: string) => {
+    setPauses(prev => prev.filter(p => p.id !== id));
+  };
+
+  const getSubscriptionPreview = (date: string): SubscriptionPreview[] => {
+    return previewSubscriptionOrders(subscriptions, pauses, orders, products, date, customers, rateCards, settings.rounding);
+  };
+
+  // The preview is recomputed against the latest orders inside the updater, so
+  // calling this twice for the same day never creates duplicates.
+  const generateSubscriptionOrders = (date: string): number => {
+    const pending = getSubscriptionPreview(date).filter(p => p.status === 'pending');
+    if (pending.length === 0) return 0;
+
+    setOrders(prev => {
+      const newOrders: Order[] = previewSubscriptionOrders(subscriptions, pauses, prev, products, date, customers, rateCards, settings.rounding)
+        .filter(p => p.status === 'pending')
+        .map(p => ({
+          ...p.order,
+          id: Math.random().toString(36).substr(2, 9),
+          createdAt: new Date().toISOString(),
+        }));
+      return newOrders.length > 0 ? [...prev, ...newOrders] : prev;
+    });
+    return pending.length;
+  };
+
+  // Materialise today's standing orders once, when the app opens. The ref keeps
+  // the first render's generator so later renders don't schedule it again.
+  const generateOnOpen = useRef(generateSubscriptionOrders);
+  useEffect(() => {
+    generateOnOpen.current(format(new Date(), 'yyyy-MM-dd'));
+  }, []);
+
+  // Bill numbers continue across runs so every bill ever issued is unique.
+  const createBillingRun = (periodFrom: string, periodTo: string): BillingRun | null => {
+    const issuedBills = billingRuns.reduce((sum, run) => sum + run.bills.length, 0);
+    const bills = createBills(customers, orders, payments, adjustments, ledger, periodFrom, periodTo, issuedBills + 1);
+    if (bills.length === 0) return null;
+
+    const newRun: BillingRun = {
+      id: Math.random().toString(36).substr(2, 9),
+      runNumber: billingRuns.length + 1,
+      periodFrom,
+      periodTo,
+      bills,
+      // The logo is left out: a data URL in every run soon fills localStorage.
+      business: { ...businessProfile, logo: undefined },
+      createdAt: new Date().toISOString(),
+    };
+    setBillingRuns(prev => [...prev, newRun]);
+    return newRun;
+  };
+
+  // Orders already on an invoice are left out, so nothing is taxed twice.
+  const issueInvoice = (customerId: string, orderIds: string[], period?: { from: string; to: string }): Invoice | null => {
+    const customer = customers.find(c => c.id === customerId);
+    const invoiceOrders = orders.filter(o => orderIds.includes(o.id) && o.customerId === customerId && !o.invoiceId);
+    if (!customer || invoiceOrders.length === 0) return null;
+
+    const invoiceDate = format(new Date(), 'yyyy-MM-dd');
+    const newInvoice: Invoice = {
+      ...createInvoice({
+        customer,
+        orders: invoiceOrders,
+        products,
+        businessGstin: businessProfile.gstin,
+        invoiceDate,
+        sequence: getNextInvoiceSequence(invoices, getFinancialYear(invoiceDate)),
+        periodFrom: period?.from,
+        periodTo: period?.to,
+      }),
+      id: Math.random().toString(36).substr(2, 9),
+      createdAt: new Date().toISOString(),
+    };
+    setInvoices(prev => [...prev, newInvoice]);
+    setOrders(prev => prev.map(o => newInvoice.orderIds.includes(o.id) ? { ...o, invoiceId: newInvoice.id } : o));
+    return newInvoice;
+  };
+
+  // The number stays taken; the orders are freed to go on a new invoice.
+  const cancelInvoice = (id: string) => {
+    setInvoices(prev => prev.map(invoice => invoice.id === id ? { ...invoice, cancelled: true } : invoice));
+    setOrders(prev => prev.map(o => o.invoiceId === id ? { ...o, invoiceId: undefined } : o));
+  };
+
+  const getCustomerBalance = (customerId: string): CustomerBalance => {
+    return balances.get(customerId) ?? emptyBalance(customerId);
+  };
+
+  const getOrderPaymentInfo = (order: Order): OrderPaymentInfo => {
+    return allocation.orders.get(order.id) ?? {
+      orderId: order.id,
+      paidAmount: 0,
+      dueAmount: order.totalAmount,
+      status: getOrderPaymentStatus(order.totalAmount, 0),
+    };
+  };
+
+  const getPaymentAllocations = (paymentId: string): PaymentAllocation[] => {
+    return allocation.payments.get(paymentId) ?? [];
+  };
+
   const getDashboardStats = (date?: string): DashboardStats => {
     const targetDate = date ? parseISO(date) : new Date();
     const dayStart = startOfDay(targetDate);
@@ -134,18 +458,27 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
 
     const dailySelling = todayOrders.reduce((sum, order) => sum + order.totalAmount, 0);
     const dailyCollection = todayPayments.reduce((sum, payment) => sum + payment.amount, 0);
+    const collectionByMethod = Object.fromEntries(
+      PAYMENT_METHODS.map(method => [method, 0])
+    ) as Record<PaymentMethod, number>;
+    // A bounced cheque's reversal nets against cheques on the day it is recorded,
+    // so the methods always add up to the day's collection.
+    todayPayments.forEach(payment => {
+      collectionByMethod[payment.method ?? 'cash'] += payment.amount;
+    });
 
     return {
       dailySelling,
       dailyCollection,
+      collectionByMethod,
       totalCustomers: customers.length,
       totalOrders: orders.length,
       pendingOrders: orders.filter(o => o.status === 'pending').length,
-      deliveredOrders: orders.filter(o => o.status === 'delivered').length,
+      deliveredOrders: orders.filter(o => o.status !== 'pending').length,
     };
   };
 
-  const getFilteredOrders = (filters: any): Order[] => {
+  const getFilteredOrders = (filters: FilterOptions): Order[] => {
     return orders.filter(order => {
       if (filters.dateFrom && parseISO(order.orderDate) < parseISO(filters.dateFrom)) return false;
       if (filters.dateTo && parseISO(order.orderDate) > parseISO(filters.dateTo)) return false;
@@ -159,16 +492,26 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
     }).sort((a, b) => parseISO(b.orderDate).getTime() - parseISO(a.orderDate).getTime());
   };
   
-  const getFilteredPayments = (filters: any): Payment[] => {
+  const getFilteredPayments = (filters: FilterOptions): Payment[] => {
     return payments.filter(payment => {
       if (filters.dateFrom && parseISO(payment.paymentDate) < parseISO(filters.dateFrom)) return false;
       if (filters.dateTo && parseISO(payment.paymentDate) > parseISO(filters.dateTo)) return false;
       if (filters.customer && payment.customerId !== filters.customer) return false;
+      if (filters.method && payment.method !== filters.method) return false;
       return true;
     }).sort((a, b) => parseISO(b.paymentDate).getTime() - parseISO(a.paymentDate).getTime());
   };
 
-  const getDailyProductSales = (date: string): { productName: string; totalQuantity: number }[] => {
+  const getFilteredAdjustments = (filters: FilterOptions): Adjustment[] => {
+    return adjustments.filter(adjustment => {
+      if (filters.dateFrom && parseISO(adjustment.adjustmentDate) < parseISO(filters.dateFrom)) return false;
+      if (filters.dateTo && parseISO(adjustment.adjustmentDate) > parseISO(filters.dateTo)) return false;
+      if (filters.customer && adjustment.customerId !== filters.customer) return false;
+      return true;
+    }).sort((a, b) => parseISO(b.adjustmentDate).getTime() - parseISO(a.adjustmentDate).getTime());
+  };
+
+  const getDailyProductSales = (date: string): { productName: string; totalQuantity: number; unit: ProductUnit }[] => {
     const targetDate = parseISO(date);
     const dayStart = startOfDay(targetDate);
     const dayEnd = endOfDay(targetDate);
@@ -177,16 +520,18 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
       isWithinInterval(parseISO(order.orderDate), { start: dayStart, end: dayEnd })
     );
 
-    const productSales: { [key: string]: { name: string; quantity: number } } = {};
+    const productSales: { [key: string]: { name: string; quantity: number; unit: ProductUnit } } = {};
 
+    // Packs are counted in the product's own unit, so 2 × 500 ml adds 1 L.
     todayOrders.forEach(order => {
       order.items.forEach(item => {
         if (productSales[item.productId]) {
-          productSales[item.productId].quantity += item.quantity;
+          productSales[item.productId].quantity += baseQuantity(item);
         } else {
           productSales[item.productId] = {
             name: item.productName,
-            quantity: item.quantity,
+            quantity: baseQuantity(item),
+            unit: item.unit ?? DEFAULT_UNIT,
           };
         }
       });
@@ -195,29 +540,106 @@ export function DataProvider({ children }: { children: React.ReactNode }) {
     return Object.values(productSales).map(p => ({
       productName: p.name,
       totalQuantity: p.quantity,
+      unit: p.unit,
     }));
   };
 
+  const getDailyReturns = (date: string): ProductReturns[] => {
+    const targetDate = parseISO(date);
+    const dayStart = startOfDay(targetDate);
+    const dayEnd = endOfDay(targetDate);
+
+    const todayOrders = orders.filter(order =>
+      isWithinInterval(parseISO(order.orderDate), { start: dayStart, end: dayEnd })
+    );
+
+    const returns: { [key: string]: ProductReturns } = {};
+
+    // Counted in the product's own unit like sales, so a returned 500 ml pack adds 0.5 L.
+    todayOrders.forEach(order => {
+      order.items.forEach(item => {
+        const packSize = item.packSize ?? 1;
+        const shortQuantity = getShortQuantity(item) * packSize;
+        const returnedQuantity = (item.returnedQuantity ?? 0) * packSize;
+        if (shortQuantity === 0 && returnedQuantity === 0) return;
+
+        if (!returns[item.productId]) {
+          returns[item.productId] = {
+            productName: item.productName,
+            unit: item.unit ?? DEFAULT_UNIT,
+            shortQuantity: 0,
+            returnedQuantity: 0,
+            value: 0,
+            reasons: [],
+          };
+        }
+        const row = returns[item.productId];
+        row.shortQuantity += shortQuantity;
+        row.returnedQuantity += returnedQuantity;
+        row.value += Math.round(item.price * item.quantity) - Math.round(item.price * billedQuantity(item));
+        if (item.returnReason && returnedQuantity > 0 && !row.reasons.includes(item.returnReason)) {
+          row.reasons.push(item.returnReason);
+        }
+      });
+    });
+
+    return Object.values(returns);
+  };
+
   return (
     <DataContext.Provider value={{
       products,
       customers,
       orders,
       payments,
+      subscriptions,
+      pauses,
+      billingRuns,
+      rateCards,
+      invoices,
+      adjustments,
+      ledger,
       addProduct,
       updateProduct,
+      setProductPrice,
+      changePrices,
       deleteProduct,
       addCustomer,
       updateCustomer,
       deleteCustomer,
+      addRateCard,
+      updateRateCard,
+      deleteRateCard,
+      getCustomerRates,
       addOrder,
       updateOrder,
       deleteOrder,
       makePayment,
+      updatePayment,
+      deletePayment,
+      reversePayment,
+      addAdjustment,
+      deleteAdjustment,
+      addSubscription,
+      updateSubscription,
+      deleteSubscription,
+      setSubscriptionSkipped,
+      addPause,
+      deletePause,
+      getSubscriptionPreview,
+      generateSubscriptionOrders,
+      createBillingRun,
+      issueInvoice,
+      cancelInvoice,
+      getCustomerBalance,
+      getOrderPaymentInfo,
+      getPaymentAllocations,
       getDashboardStats,
       getFilteredOrders,
       getFilteredPayments,
+      getFilteredAdjustments,
       getDailyProductSales,
+      getDailyReturns,
     }}>
       {children}
     </DataContext.Provider>
@@ -0,0 +1,56 @@
+import React, { createContext, useContext } from 'react';
+import { AppSettings, BusinessProfile } from '../types';
+import { useLocalStorage } from '../hooks/useLocalStorage';
+import { useAuth } from './AuthContext';
+import { DEFAULT_MONEY_FORMAT, setMoneyFormat } from '../utils/money';
+
+interface SettingsContextType {
+  settings: AppSettings;
+  updateSettings: (settings: Partial<AppSettings>) => void;
+  businessProfile: BusinessProfile;
+  updateBusinessProfile: (profile: BusinessProfile) => void;
+}
+
+const defaultSettings: AppSettings = {
+  rounding: 'none',
+  money: DEFAULT_MONEY_FORMAT,
+};
+
+const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
+
+export function SettingsProvider({ children }: { children: React.ReactNode }) {
+  const [storedSettings, setSettings] = useLocalStorage<AppSettings>('settings', defaultSettings);
+  // Settings added in later versions pick up their defaults.
+  const settings = { ...defaultSettings, ...storedSettings };
+  // Set before the children render so every amount in this pass uses it.
+  setMoneyFormat(settings.money);
+
+  const updateSettings = (updatedSettings: Partial<AppSettings>) => {
+    setSettings(prev => ({ ...defaultSettings, ...prev, ...updatedSettings }));
+  };
+
+  // Each account keeps its own profile, so dairies sharing a device don't
+  // print each other's details. Until one is saved the account name is used.
+  const { user } = useAuth();
+  const [businessProfiles, setBusinessProfiles] = useLocalStorage<Record<string, BusinessProfile>>('businessProfiles', {});
+  const businessProfile = (user && businessProfiles[user.id]) || { name: user?.name ?? '' };
+
+  const updateBusinessProfile = (profile: BusinessProfile) => {
+    if (!user) return;
+    setBusinessProfiles(prev => ({ ...prev, [user.id]: profile }));
+  };
+
+  return (
+    <SettingsContext.Provider value={{ settings, updateSettings, businessProfile, updateBusinessProfile }}>
+      {children}
+    </SettingsContext.Provider>
+  );
+}
+
+export function useSettings() {
+  const context = useContext(SettingsContext);
+  if (context === undefined) {
+    throw new Error('useSettings must be used within a SettingsProvider');
+  }
+  return context;
+}
@@ -11,14 +11,18 @@ export function useLocalStorage<T>(key: string, initialValue: T) {
     }
   });
 
+  // Updaters receive the latest state rather than the value captured at render
+  // time, so several writes in the same tick (e.g. a batch of orders) compose.
   const setValue = (value: T | ((val: T) => T)) => {
-    try {
-      const valueToStore = value instanceof Function ? value(storedValue) : value;
-      setStoredValue(valueToStore);
-      window.localStorage.setItem(key, JSON.stringify(valueToStore));
-    } catch (error) {
-      console.error(`Error setting localStorage key "${key}":`, error);
-    }
+    setStoredValue(prev => {
+      const valueToStore = value instanceof Function ? value(prev) : value;
+      try {
+        window.localStorage.setItem(key, JSON.stringify(valueToStore));
+      } catch (error) {
+        console.error(`Error setting localStorage key "${key}":`, error);
+      }
+      return valueToStore;
+    });
   };
 
   return [storedValue, setValue] as const;
@@ -0,0 +1,253 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Hourglass, Download, ChevronDown, ChevronUp, ArrowUpDown } from 'lucide-react';
+import { useData } from '../contexts/DataContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { AgingRow } from '../types';
+import { format, parseISO } from 'date-fns';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { addDocumentHeader } from '../utils/pdf';
+import { AGING_BUCKETS, buildAgingReport, emptyBuckets } from '../utils/aging';
+import { describeOrder } from '../utils/orders';
+import { csvBlob } from '../utils/csv';
+import { downloadBlob } from '../utils/download';
+import { exportAmount, formatMoney } from '../utils/money';
+
+type SortKey = 'total' | 'oldest';
+
+function AgingDrillDown({ row }: { row: AgingRow }) {
+  return (
+    <motion.tr
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+    >
+      <td colSpan={AGING_BUCKETS.length + 3} className="px-6 pb-4 bg-gray-50">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-gray-500 uppercase">
+              <th className="py-2 text-left font-medium">Order Date</th>
+              <th className="py-2 text-left font-medium">Items</th>
+              <th className="py-2 text-right font-medium">Order Total</th>
+              <th className="py-2 text-right font-medium">Still Due</th>
+              <th className="py-2 text-right font-medium">Age</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {row.unpaidOrders.map(({ order, dueAmount, ageDays }) => (
+              <tr key={order.id}>
+                <td className="py-2 text-gray-800 whitespace-nowrap">{format(parseISO(order.orderDate), 'MMM dd, yyyy')}</td>
+                <td className="py-2 text-gray-600">{describeOrder(order).replace(/^Order: /, '')}</td>
+                <td className="py-2 text-right text-gray-800">{formatMoney(order.totalAmount)}</td>
+                <td className="py-2 text-right font-semibold text-red-600">{formatMoney(dueAmount)}</td>
+                <td className="py-2 text-right text-gray-600">{ageDays} days</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </td>
+    </motion.tr>
+  );
+}
+
+export function Aging() {
+  const { customers, orders, getOrderPaymentInfo } = useData();
+  const { businessProfile } = useSettings();
+  const [sortKey, setSortKey] = useState<SortKey>('total');
+  const [descending, setDescending] = useState(true);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  const direction = descending ? -1 : 1;
+  const rows = buildAgingReport(customers, orders, getOrderPaymentInfo, today).sort((a, b) => sortKey === 'total'
+    ? direction * (a.total - b.total)
+    // "Descending" on oldest due puts the longest-waiting dues first.
+    : -direction * a.oldestDueDate.localeCompare(b.oldestDueDate)
+  );
+
+  const totals = rows.reduce((acc, row) => {
+    AGING_BUCKETS.forEach(({ key }) => { acc[key] += row.buckets[key]; });
+    return acc;
+  }, emptyBuckets());
+  const grandTotal = rows.reduce((sum, row) => sum + row.total, 0);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setDescending(!descending);
+    } else {
+      setSortKey(key);
+      setDescending(true);
+    }
+  };
+
+  const exportToPDF = () => {
+    const doc = new jsPDF({ orientation: 'landscape' });
+    const startY = addDocumentHeader(doc, businessProfile, 'Receivables Aging Report', [`As of ${format(parseISO(today), 'MMM dd, yyyy')}`]);
+
+    autoTable(doc, {
+      head: [['Customer', ...AGING_BUCKETS.map(b => b.label), 'Total', 'Oldest Due']],
+      body: rows.map(row => [
+        row.customerName,
+        ...AGING_BUCKETS.map(({ key }) => row.buckets[key] > 0 ? formatMoney(row.buckets[key]) : '-'),
+        formatMoney(row.total),
+        format(parseISO(row.oldestDueDate), 'dd/MM/yyyy'),
+      ]),
+      foot: [['Total', ...AGING_BUCKETS.map(({ key }) => formatMoney(totals[key])), formatMoney(grandTotal), '']],
+      startY,
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [14, 165, 233] },
+      footStyles: { fillColor: [240, 240, 240], textColor: 20 },
+      columnStyles: Object.fromEntries(
+        [...AGING_BUCKETS.map((_, index) => index + 1), AGING_BUCKETS.length + 1].map(col => [col, { halign: 'right' as const }])
+      ),
+    });
+
+    doc.save(`aging-report-${today}.pdf`);
+  };
+
+  const exportToCSV = () => {
+    const csvRows = [
+      ['Customer', ...AGING_BUCKETS.map(b => b.label), 'Total', 'Oldest Due'],
+      ...rows.map(row => [
+        row.customerName,
+        ...AGING_BUCKETS.map(({ key }) => exportAmount(row.buckets[key])),
+        exportAmount(row.total),
+        format(parseISO(row.oldestDueDate), 'yyyy-MM-dd'),
+      ]),
+      ['Total', ...AGING_BUCKETS.map(({ key }) => exportAmount(totals[key])), exportAmount(grandTotal), ''],
+    ];
+    downloadBlob(csvBlob(csvRows), `aging-report-${today}.csv`);
+  };
+
+  const sortIndicator = (key: SortKey) => sortKey === key
+    ? (descending ? <ChevronDown className="w-3 h-3" /> : <ChevronUp className="w-3 h-3" />)
+    : <ArrowUpDown className="w-3 h-3" />;
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Receivables Aging</h1>
+          <p className="text-gray-600">How long customers' unpaid dues have been outstanding</p>
+        </div>
+        <div className="flex gap-3">
+          <button
+            onClick={exportToCSV}
+            disabled={rows.length === 0}
+            className="inline-flex items-center gap-2 bg-gray-600 text-white px-4 py-2 rounded-xl font-medium hover:bg-gray-700 transition-colors duration-200 disabled:opacity-50"
+          >
+            <Download className="w-5 h-5" />
+            CSV
+          </button>
+          <button
+            onClick={exportToPDF}
+            disabled={rows.length === 0}
+            className="inline-flex items-center gap-2 bg-red-600 text-white px-4 py-2 rounded-xl font-medium hover:bg-red-700 transition-colors duration-200 disabled:opacity-50"
+          >
+            <Download className="w-5 h-5" />
+            PDF
+          </button>
+        </div>
+      </div>
+
+      {/* Bucket Summary */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        {AGING_BUCKETS.map(({ key, label }, index) => (
+          <motion.div
+            key={key}
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: index * 0.05 }}
+            className="bg-white rounded-2xl shadow-soft p-6"
+          >
+            <p className="text-sm text-gray-600">{label}</p>
+            <p className={`text-2xl font-bold ${key === '90+' ? 'text-red-600' : 'text-gray-900'}`}>{formatMoney(totals[key])}</p>
+            <p className="text-xs text-gray-500 mt-1">
+              {grandTotal > 0 ? ((totals[key] / grandTotal) * 100).toFixed(0) : 0}% of outstanding
+            </p>
+          </motion.div>
+        ))}
+      </div>
+
+      {/* Report */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.2 }}
+        className="bg-white rounded-2xl shadow-soft overflow-hidden"
+      >
+        {rows.length === 0 ? (
+          <div className="text-center py-12">
+            <Hourglass className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">Nothing outstanding</h3>
+            <p className="text-gray-500">Every delivered order has been paid for</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                  {AGING_BUCKETS.map(({ key, label }) => (
+                    <th key={key} className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</th>
+                  ))}
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    <button onClick={() => handleSort('total')} className="inline-flex items-center gap-1 uppercase">
+                      Total {sortIndicator('total')}
+                    </button>
+                  </th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    <button onClick={() => handleSort('oldest')} className="inline-flex items-center gap-1 uppercase">
+                      Oldest Due {sortIndicator('oldest')}
+                    </button>
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rows.map(row => (
+                  <React.Fragment key={row.customerId}>
+                    <tr
+                      onClick={() => setExpanded(expanded === row.customerId ? null : row.customerId)}
+                      className="hover:bg-gray-50 cursor-pointer transition-colors duration-200"
+                    >
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        <span className="inline-flex items-center gap-2">
+                          {expanded === row.customerId ? <ChevronUp className="w-4 h-4 text-gray-400" /> : <ChevronDown className="w-4 h-4 text-gray-400" />}
+                          {row.customerName}
+                        </span>
+                      </td>
+                      {AGING_BUCKETS.map(({ key }) => (
+                        <td key={key} className="px-6 py-4 whitespace-nowrap text-sm text-gray-800 text-right">
+                          {row.buckets[key] > 0 ? formatMoney(row.buckets[key]) : '-'}
+                        </td>
+                      ))}
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-red-600 text-right">{formatMoney(row.total)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 text-right">
+                        {format(parseISO(row.oldestDueDate), 'MMM dd, yyyy')}
+                      </td>
+                    </tr>
+                    <AnimatePresence>
+                      {expanded === row.customerId && <AgingDrillDown row={row} />}
+                    </AnimatePresence>
+                  </React.Fragment>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-50">
+                <tr>
+                  <td className="px-6 py-4 text-sm font-semibold text-gray-900">Total</td>
+                  {AGING_BUCKETS.map(({ key }) => (
+                    <td key={key} className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900 text-right">{formatMoney(totals[key])}</td>
+                  ))}
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-bold text-red-600 text-right">{formatMoney(grandTotal)}</td>
+                  <td />
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Receipt, Download, FileArchive, Printer, ChevronDown, ChevronUp, FileText } from 'lucide-react';
+import { useData } from '../contexts/DataContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { Bill, BillingRun } from '../types';
+import { format, parseISO, startOfMonth, endOfMonth, subMonths } from 'date-fns';
+import { buildBillingRunPdf, buildBillingRunZip, buildBillPdf, billFileName } from '../utils/billingPdf';
+import { downloadBlob } from '../utils/download';
+import { formatBalance } from '../utils/ledger';
+import { formatMoney } from '../utils/money';
+import { buildTaxInvoicePdf, invoiceFileName } from '../utils/invoicePdf';
+
+function BillingRunCard({ run }: { run: BillingRun }) {
+  const { orders, invoices, issueInvoice } = useData();
+  const { businessProfile } = useSettings();
+  const [isOpen, setIsOpen] = useState(false);
+  const [message, setMessage] = useState('');
+  const period = `${format(parseISO(run.periodFrom), 'MMM dd, yyyy')} to ${format(parseISO(run.periodTo), 'MMM dd, yyyy')}`;
+  // Advances belong to individual customers and do not offset what others owe.
+  const totalDue = run.bills.reduce((sum, bill) => sum + Math.max(0, bill.closingBalance), 0);
+  const fileStem = `billing-run-${run.runNumber}-${run.periodFrom}-to-${run.periodTo}`;
+
+  // One tax invoice per customer and period; printing it again reuses the number.
+  const handleTaxInvoice = (bill: Bill) => {
+    const periodOrders = orders.filter(o => {
+      const day = format(parseISO(o.orderDate), 'yyyy-MM-dd');
+      return o.customerId === bill.customerId && day >= run.periodFrom && day <= run.periodTo;
+    });
+    const uninvoiced = periodOrders.filter(o => !o.invoiceId);
+    const existing = invoices.find(i =>
+      !i.cancelled && i.customerId === bill.customerId && i.periodFrom === run.periodFrom && i.periodTo === run.periodTo
+    );
+
+    let invoice = uninvoiced.length === 0 ? existing : undefined;
+    if (!invoice && uninvoiced.length > 0) {
+      if (!window.confirm(`Issue a tax invoice to ${bill.customerName} for ${uninvoiced.length} order(s) in this period?`)) return;
+      invoice = issueInvoice(bill.customerId, uninvoiced.map(o => o.id), { from: run.periodFrom, to: run.periodTo }) ?? undefined;
+    }
+    if (!invoice) {
+      setMessage(`${bill.customerName}'s orders in this period are already on other invoices.`);
+      return;
+    }
+    setMessage('');
+    buildTaxInvoicePdf(invoice, businessProfile).save(invoiceFileName(invoice));
+  };
+
+  return (
+    <motion.div
+      layout
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-2xl shadow-soft border border-gray-100"
+    >
+      <div className="p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Run #{run.runNumber}</h3>
+          <p className="text-sm text-gray-600">{period}</p>
+          <p className="text-sm text-gray-500">
+            {run.bills.length} bills ({run.bills[0]?.billNumber} - {run.bills[run.bills.length - 1]?.billNumber}),
+            run on {format(parseISO(run.createdAt), 'MMM dd, yyyy HH:mm')}
+          </p>
+          <p className="text-sm font-semibold text-gray-800 mt-1">Total due: {formatMoney(totalDue)}</p>
+        </div>
+        <div className="flex items-center gap-2 self-end sm:self-center">
+          <button
+            onClick={() => buildBillingRunPdf(run, businessProfile).save(`${fileStem}.pdf`)}
+            className="inline-flex items-center gap-2 bg-red-600 text-white px-3 py-2 rounded-xl text-sm font-medium hover:bg-red-700 transition-colors duration-200"
+          >
+            <Printer className="w-4 h-4" />
+            PDF
+          </button>
+          <button
+            onClick={() => downloadBlob(buildBillingRunZip(run, businessProfile), `${fileStem}.zip`)}
+            className="inline-flex items-center gap-2 bg-gray-700 text-white px-3 py-2 rounded-xl text-sm font-medium hover:bg-gray-800 transition-colors duration-200"
+          >
+            <FileArchive className="w-4 h-4" />
+            ZIP
+          </button>
+          <button
+            onClick={() => setIsOpen(!isOpen)}
+            className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg"
+          >
+            {isOpen ? <ChevronUp className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
+          </button>
+        </div>
+      </div>
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="border-t border-gray-200 divide-y divide-gray-100">
+              {message && <p className="px-4 py-2 text-sm text-red-600">{message}</p>}
+              {run.bills.map(bill => (
+                <div key={bill.billNumber} className="flex items-center justify-between px-4 py-3">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{bill.billNumber} - {bill.customerName}</p>
+                    <p className="text-xs text-gray-500">
+                      Billed {formatMoney(bill.totalBilled)}, received {formatMoney(bill.totalPaid)}, balance {formatBalance(bill.closingBalance)}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => handleTaxInvoice(bill)}
+                      className="p-2 text-purple-600 hover:bg-purple-50 rounded-lg"
+                      title="Tax invoice"
+                    >
+                      <FileText className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => buildBillPdf(run, bill, businessProfile).save(billFileName(bill))}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                      title="Download bill"
+                    >
+                      <Download className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+}
+
+export function Billing() {
+  const { billingRuns, createBillingRun } = useData();
+  const { businessProfile } = useSettings();
+  const lastMonth = subMonths(new Date(), 1);
+  const [periodFrom, setPeriodFrom] = useState(format(startOfMonth(lastMonth), 'yyyy-MM-dd'));
+  const [periodTo, setPeriodTo] = useState(format(endOfMonth(lastMonth), 'yyyy-MM-dd'));
+  const [message, setMessage] = useState('');
+
+  const handleRun = () => {
+    if (periodTo < periodFrom) {
+      setMessage('The period cannot end before it starts.');
+      return;
+    }
+    const run = createBillingRun(periodFrom, periodTo);
+    setMessage(run ? '' : 'No customer has orders or payments in this period.');
+    if (run) {
+      buildBillingRunPdf(run, businessProfile).save(`billing-run-${run.runNumber}-${run.periodFrom}-to-${run.periodTo}.pdf`);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">Billing</h1>
+        <p className="text-gray-600">Generate numbered bills for every customer in one go</p>
+      </div>
+
+      {/* New Run */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white rounded-2xl shadow-soft p-6 mb-6"
+      >
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">New Billing Run</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              From Date
+            </label>
+            <input
+              type="date"
+              value={periodFrom}
+              onChange={(e) => setPeriodFrom(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              To Date
+            </label>
+            <input
+              type="date"
+              value={periodTo}
+              onChange={(e) => setPeriodTo(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+            />
+          </div>
+          <button
+            onClick={handleRun}
+            className="inline-flex items-center justify-center gap-2 bg-primary-600 text-white px-4 py-2 rounded-xl font-medium hover:bg-primary-700 transition-colors duration-200"
+          >
+            <Receipt className="w-5 h-5" />
+            Run Billing
+          </button>
+        </div>
+        {message && <p className="text-red-500 text-sm mt-3">{message}</p>}
+      </motion.div>
+
+      {/* Past Runs */}
+      <div className="space-y-4">
+        {[...billingRuns].reverse().map(run => (
+          <BillingRunCard key={run.id} run={run} />
+        ))}
+        {billingRuns.length === 0 && (
+          <div className="text-center py-12">
+            <Receipt className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No billing runs yet</h3>
+            <p className="text-gray-500">Pick a period above to bill every active customer at once</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
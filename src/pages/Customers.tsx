@@ -5,9 +5,14 @@ import { useData } from '../contexts/DataContext';
 import { Customer } from '../types';
 import { PaymentModal } from '../components/Customers/PaymentModal';
 import { CustomerDetailsModal } from '../components/Customers/CustomerDetailsModal';
+import { isAdvance } from '../utils/ledger';
+import { formatMoney, parseRupees, rupeesInput } from '../utils/money';
+import { isValidGstin } from '../utils/gst';
+
+const emptyForm = { name: '', phone: '', address: '', group: '', deliveryCharge: '', gstin: '' };
 
 export function Customers() {
-  const { customers, addCustomer, updateCustomer, deleteCustomer } = useData();
+  const { customers, addCustomer, updateCustomer, deleteCustomer, getCustomerBalance } = useData();
   
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
@@ -16,7 +21,10 @@ export function Customers() {
   const [activeCustomer, setActiveCustomer] = useState<Customer | null>(null);
   
   const [searchTerm, setSearchTerm] = useState('');
-  const [formData, setFormData] = useState({ name: '', phone: '', address: '' });
+  const [formData, setFormData] = useState(emptyForm);
+  const [formError, setFormError] = useState('');
+
+  const groups = [...new Set(customers.map(c => c.group).filter((g): g is string => !!g))].sort();
 
   const filteredCustomers = customers.filter(customer =>
     customer.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -27,22 +35,34 @@ export function Customers() {
   const handleEditSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.name || !formData.phone || !formData.address) return;
+    const deliveryCharge = parseRupees(formData.deliveryCharge) ?? 0;
+    const gstin = formData.gstin.trim().toUpperCase();
+    if (gstin && !isValidGstin(gstin)) {
+      setFormError('Please enter a valid 15-character GSTIN, or leave it empty.');
+      return;
+    }
 
     if (activeCustomer) {
       updateCustomer(activeCustomer.id, {
         name: formData.name,
         phone: formData.phone,
-        address: formData.address
+        address: formData.address,
+        group: formData.group.trim() || undefined,
+        deliveryCharge: deliveryCharge > 0 ? deliveryCharge : undefined,
+        gstin: gstin || undefined
       });
     } else {
       addCustomer({
         name: formData.name,
         phone: formData.phone,
-        address: formData.address
+        address: formData.address,
+        group: formData.group.trim() || undefined,
+        deliveryCharge: deliveryCharge > 0 ? deliveryCharge : undefined,
+        gstin: gstin || undefined
       });
     }
 
-    setFormData({ name: '', phone: '', address: '' });
+    setFormData(emptyForm);
     setIsEditModalOpen(false);
     setActiveCustomer(null);
   };
@@ -53,11 +73,15 @@ export function Customers() {
       setFormData({ 
         name: customer.name, 
         phone: customer.phone, 
-        address: customer.address 
+        address: customer.address,
+        group: customer.group ?? '',
+        deliveryCharge: customer.deliveryCharge ? rupeesInput(customer.deliveryCharge) : '',
+        gstin: customer.gstin ?? ''
       });
     } else {
-      setFormData({ name: '', phone: '', address: '' });
+      setFormData(emptyForm);
     }
+    setFormError('');
     setIsEditModalOpen(true);
   };
   
@@ -68,7 +92,9 @@ export function Customers() {
 
   const handleDelete = (id: string) => {
     if (window.confirm('Are you sure you want to delete this customer? This action cannot be undone.')) {
-      deleteCustomer(id);
+      if (!deleteCustomer(id)) {
+        window.alert('This customer has tax invoices. Cancel them on the Invoices page before deleting the customer.');
+      }
     }
   };
 
@@ -112,69 +138,79 @@ export function Customers() {
       {/* Customers Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         <AnimatePresence>
-          {filteredCustomers.map((customer) => (
-            <motion.div
-              key={customer.id}
-              layout
-              initial={{ opacity: 0, scale: 0.9 }}
-              animate={{ opacity: 1, scale: 1 }}
-              exit={{ opacity: 0, scale: 0.9 }}
-              whileHover={{ y: -4, boxShadow: '0 4px 25px -5px rgba(0, 0, 0, 0.1), 0 10px 30px -5px rgba(0, 0, 0, 0.04)' }}
-              className="bg-white rounded-2xl shadow-soft border border-gray-100 flex flex-col cursor-pointer"
-              onClick={() => openDetailsModal(customer)}
-            >
-              <div className="p-6 flex flex-col flex-grow">
-                <div className="flex items-start justify-between mb-4">
-                  <div className="w-12 h-12 bg-blue-100 rounded-xl flex items-center justify-center">
-                    <Users className="w-6 h-6 text-blue-600" />
-                  </div>
-                  <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
-                    <button
-                      onClick={() => openEditModal(customer)}
-                      className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors duration-200"
-                    >
-                      <Edit2 className="w-4 h-4" />
-                    </button>
-                    <button
-                      onClick={() => handleDelete(customer.id)}
-                      className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors duration-200"
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </button>
+          {filteredCustomers.map((customer) => {
+            const balance = getCustomerBalance(customer.id);
+            return (
+              <motion.div
+                key={customer.id}
+                layout
+                initial={{ opacity: 0, scale: 0.9 }}
+                animate={{ opacity: 1, scale: 1 }}
+                exit={{ opacity: 0, scale: 0.9 }}
+                whileHover={{ y: -4, boxShadow: '0 4px 25px -5px rgba(0, 0, 0, 0.1), 0 10px 30px -5px rgba(0, 0, 0, 0.04)' }}
+                className="bg-white rounded-2xl shadow-soft border border-gray-100 flex flex-col cursor-pointer"
+                onClick={() => openDetailsModal(customer)}
+              >
+                <div className="p-6 flex flex-col flex-grow">
+                  <div className="flex items-start justify-between mb-4">
+                    <div className="w-12 h-12 bg-blue-100 rounded-xl flex items-center justify-center">
+                      <Users className="w-6 h-6 text-blue-600" />
+                    </div>
+                    <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                      <button
+                        onClick={() => openEditModal(customer)}
+                        className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors duration-200"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(customer.id)}
+                        className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors duration-200"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
                   </div>
-                </div>
-                
-                <div className="flex-grow">
-                  <h3 className="text-lg font-semibold text-gray-900 mb-3">{customer.name}</h3>
-                  <div className="space-y-2 mb-4">
-                    <div className="flex items-center gap-2 text-sm text-gray-600">
-                      <Phone className="w-4 h-4" />
-                      {customer.phone}
+                  
+                  <div className="flex-grow">
+                    <div className="flex items-center gap-2 mb-3">
+                      <h3 className="text-lg font-semibold text-gray-900">{customer.name}</h3>
+                      {customer.group && (
+                        <span className="px-2 py-0.5 bg-purple-100 text-purple-700 rounded-full text-xs font-medium">{customer.group}</span>
+                      )}
                     </div>
-                    <div className="flex items-start gap-2 text-sm text-gray-600">
-                      <MapPin className="w-4 h-4 mt-0.5 flex-shrink-0" />
-                      <span className="line-clamp-2">{customer.address}</span>
+                    <div className="space-y-2 mb-4">
+                      <div className="flex items-center gap-2 text-sm text-gray-600">
+                        <Phone className="w-4 h-4" />
+                        {customer.phone}
+                      </div>
+                      <div className="flex items-start gap-2 text-sm text-gray-600">
+                        <MapPin className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                        <span className="line-clamp-2">{customer.address}</span>
+                      </div>
                     </div>
                   </div>
-                </div>
 
-                <div className="grid grid-cols-3 gap-2 pt-4 border-t border-gray-100 text-center">
-                  <div>
-                    <p className="text-xs text-gray-500">Total Billed</p>
-                    <p className="text-md font-semibold text-gray-900">₹{customer.totalAmount.toFixed(2)}</p>
-                  </div>
-                  <div>
-                    <p className="text-xs text-gray-500">Paid</p>
-                    <p className="text-md font-semibold text-green-600">₹{customer.paidAmount.toFixed(2)}</p>
-                  </div>
-                  <div>
-                    <p className="text-xs text-gray-500">Pending</p>
-                    <p className="text-md font-semibold text-red-600">₹{customer.pendingBalance.toFixed(2)}</p>
+                  <div className="grid grid-cols-3 gap-2 pt-4 border-t border-gray-100 text-center">
+                    <div>
+                      <p className="text-xs text-gray-500">Total Billed</p>
+                      <p className="text-md font-semibold text-gray-900">{formatMoney(balance.totalAmount)}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500">Paid</p>
+                      <p className="text-md font-semibold text-green-600">{formatMoney(balance.paidAmount)}</p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500">{isAdvance(balance.pendingBalance) ? 'Advance' : 'Pending'}</p>
+                      <p className={`text-md font-semibold ${isAdvance(balance.pendingBalance) ? 'text-emerald-600' : 'text-red-600'}`}>
+                        {formatMoney(Math.abs(balance.pendingBalance))}
+                      </p>
+                    </div>
                   </div>
                 </div>
-              </div>
-            </motion.div>
-          ))}
+              </motion.div>
+            );
+          })}
         </AnimatePresence>
 
         {filteredCustomers.length === 0 && (
@@ -257,6 +293,57 @@ export function Customers() {
                     required
                   />
                 </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Group (optional)
+                    </label>
+                    <input
+                      type="text"
+                      list="customer-groups"
+                      value={formData.group}
+                      onChange={(e) => setFormData({ ...formData, group: e.target.value })}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                      placeholder="e.g. Hotel, Tea stall"
+                    />
+                    <datalist id="customer-groups">
+                      {groups.map(group => <option key={group} value={group} />)}
+                    </datalist>
+                    <p className="text-xs text-gray-500 mt-1">Customers in a group share its special rates.</p>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Delivery Charge (₹)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={formData.deliveryCharge}
+                      onChange={(e) => setFormData({ ...formData, deliveryCharge: e.target.value })}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                      placeholder="0.00"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Added to each order.</p>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    GSTIN (optional)
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.gstin}
+                    onChange={(e) => {
+                      setFormData({ ...formData, gstin: e.target.value });
+                      setFormError('');
+                    }}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none uppercase"
+                    placeholder="For B2B tax invoices"
+                    maxLength={15}
+                  />
+                </div>
+                {formError && <p className="text-red-500 text-sm">{formError}</p>}
                 <div className="flex gap-3 pt-4">
                   <button
                     type="button"
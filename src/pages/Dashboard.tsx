@@ -10,19 +10,27 @@ import {
 } from 'lucide-react';
 import { StatsCard } from '../components/Dashboard/StatsCard';
 import { ProductSales } from '../components/Dashboard/ProductSales';
+import { CollectionBreakdown } from '../components/Dashboard/CollectionBreakdown';
+import { ReturnsSummary } from '../components/Dashboard/ReturnsSummary';
 import { useData } from '../contexts/DataContext';
 import { format } from 'date-fns';
+import { formatMoney } from '../utils/money';
 
 export function Dashboard() {
-  const { getDashboardStats, getDailyProductSales, customers } = useData();
+  const { getDashboardStats, getDailyProductSales, getDailyReturns, getCustomerBalance, customers } = useData();
   const [selectedDate, setSelectedDate] = useState(format(new Date(), 'yyyy-MM-dd'));
   
   const stats = getDashboardStats(selectedDate);
   const productSales = getDailyProductSales(selectedDate);
+  const returns = getDailyReturns(selectedDate);
 
-  const totalSales = customers.reduce((acc, c) => acc + c.totalAmount, 0);
-  const totalPaid = customers.reduce((acc, c) => acc + c.paidAmount, 0);
-  const totalPending = customers.reduce((acc, c) => acc + c.pendingBalance, 0);
+  const balances = customers.map(c => getCustomerBalance(c.id));
+  const totalSales = balances.reduce((acc, b) => acc + b.totalAmount, 0);
+  const totalPaid = balances.reduce((acc, b) => acc + b.paidAmount, 0);
+  const totalCredited = balances.reduce((acc, b) => acc + b.adjustedAmount, 0);
+  // Advances are kept apart so one customer's credit never hides another's dues.
+  const totalPending = balances.reduce((acc, b) => acc + Math.max(0, b.pendingBalance), 0);
+  const totalAdvance = balances.reduce((acc, b) => acc + Math.max(0, -b.pendingBalance), 0);
 
   return (
     <div className="p-4 md:p-6 space-y-6">
@@ -49,39 +57,47 @@ export function Dashboard() {
       <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-5 gap-4">
         <StatsCard
           title="Daily Selling"
-          value={`₹${stats.dailySelling.toFixed(2)}`}
+          value={formatMoney(stats.dailySelling)}
           icon={DollarSign}
           color="green"
         />
         <StatsCard
           title="Daily Collection"
-          value={`₹${stats.dailyCollection.toFixed(2)}`}
+          value={formatMoney(stats.dailyCollection)}
           icon={TrendingUp}
           color="blue"
         />
         <StatsCard
           title="Overall Sales"
-          value={`₹${totalSales.toFixed(2)}`}
+          value={formatMoney(totalSales)}
           icon={Landmark}
           color="purple"
         />
         <StatsCard
           title="Overall Paid"
-          value={`₹${totalPaid.toFixed(2)}`}
+          value={formatMoney(totalPaid)}
+          change={totalCredited > 0
+            ? `Plus ${formatMoney(totalCredited)} in credit notes`
+            : totalCredited < 0 ? `Less ${formatMoney(-totalCredited)} in extra charges` : undefined}
+          changeType="neutral"
           icon={PiggyBank}
           color="yellow"
         />
         <StatsCard
           title="Pending Amount"
-          value={`₹${totalPending.toFixed(2)}`}
+          value={formatMoney(totalPending)}
+          change={totalAdvance > 0 ? `Advance ${formatMoney(totalAdvance)} held` : undefined}
+          changeType="positive"
           icon={Clock}
           color="blue"
         />
       </div>
 
-      {/* Product Sales */}
-      <div className="grid grid-cols-1 gap-6">
+      {/* Product Sales, Returns and Collection */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         <ProductSales data={productSales} />
+        <ReturnsSummary data={returns} />
+        <CollectionBreakdown data={stats.collectionByMethod} total={stats.dailyCollection} />
       </div>
     </div>
   );
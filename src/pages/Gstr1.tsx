@@ -0,0 +1,223 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, Download, FileArchive } from 'lucide-react';
+import { endOfMonth, format, parseISO } from 'date-fns';
+import { useData } from '../contexts/DataContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { ItemTax } from '../types';
+import { describeState } from '../utils/gst';
+import { buildGstr1Json, buildGstr1Report, buildGstr1Zip } from '../utils/gstr1';
+import { downloadBlob } from '../utils/download';
+import { formatMoney } from '../utils/money';
+import { formatQuantity } from '../utils/units';
+
+const headerClass = 'px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+const amountHeaderClass = 'px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider';
+const cellClass = 'px-6 py-4 whitespace-nowrap text-sm text-gray-900';
+const amountCellClass = 'px-6 py-4 whitespace-nowrap text-sm text-right';
+
+function TaxHeaders() {
+  return (
+    <>
+      <th className={amountHeaderClass}>Rate</th>
+      <th className={amountHeaderClass}>Taxable</th>
+      <th className={amountHeaderClass}>IGST</th>
+      <th className={amountHeaderClass}>CGST</th>
+      <th className={amountHeaderClass}>SGST</th>
+    </>
+  );
+}
+
+function TaxCells({ tax }: { tax: ItemTax }) {
+  return (
+    <>
+      <td className={amountCellClass}>{tax.taxRate}%</td>
+      <td className={amountCellClass}>{formatMoney(tax.taxableValue)}</td>
+      <td className={amountCellClass}>{formatMoney(tax.igst)}</td>
+      <td className={amountCellClass}>{formatMoney(tax.cgst)}</td>
+      <td className={amountCellClass}>{formatMoney(tax.sgst)}</td>
+    </>
+  );
+}
+
+function Section({ title, empty, children }: { title: string; empty: boolean; children: React.ReactNode }) {
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-2xl shadow-soft overflow-hidden mb-6"
+    >
+      <h2 className="px-6 py-4 text-lg font-semibold text-gray-900 border-b border-gray-200">{title}</h2>
+      {empty ? (
+        <p className="px-6 py-8 text-center text-gray-500">Nothing to report this month</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">{children}</table>
+        </div>
+      )}
+    </motion.div>
+  );
+}
+
+export function Gstr1() {
+  const { customers, products, invoices, getFilteredOrders } = useData();
+  const { businessProfile } = useSettings();
+  const [month, setMonth] = useState(format(new Date(), 'yyyy-MM'));
+
+  const report = useMemo(() => {
+    const dateFrom = `${month}-01`;
+    const dateTo = format(endOfMonth(parseISO(dateFrom)), 'yyyy-MM-dd');
+    return buildGstr1Report({
+      orders: getFilteredOrders({ dateFrom, dateTo }),
+      invoices: invoices.filter(i => i.invoiceDate >= dateFrom && i.invoiceDate <= dateTo),
+      customers,
+      products,
+      businessGstin: businessProfile.gstin,
+    });
+  }, [month, getFilteredOrders, invoices, customers, products, businessProfile.gstin]);
+
+  const exportJson = () => {
+    const json = buildGstr1Json(report, businessProfile.gstin ?? '', month);
+    downloadBlob(
+      new Blob([JSON.stringify(json, null, 2)], { type: 'application/json' }),
+      `gstr1-${month}.json`
+    );
+  };
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">GSTR-1</h1>
+          <p className="text-gray-600">Monthly outward supplies for the GST return</p>
+        </div>
+        <div className="flex gap-3">
+          <input
+            type="month"
+            value={month}
+            onChange={(e) => e.target.value && setMonth(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+          />
+          <button
+            onClick={exportJson}
+            className="inline-flex items-center gap-2 bg-primary-600 text-white px-4 py-2 rounded-xl font-medium hover:bg-primary-700 transition-colors duration-200"
+          >
+            <Download className="w-5 h-5" />
+            JSON
+          </button>
+          <button
+            onClick={() => downloadBlob(buildGstr1Zip(report, month), `gstr1-${month}.zip`)}
+            className="inline-flex items-center gap-2 bg-gray-600 text-white px-4 py-2 rounded-xl font-medium hover:bg-gray-700 transition-colors duration-200"
+          >
+            <FileArchive className="w-5 h-5" />
+            CSV
+          </button>
+        </div>
+      </div>
+
+      {report.issues.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-2xl p-4 mb-6">
+          <div className="flex items-center gap-2 mb-2 font-medium text-yellow-800">
+            <AlertTriangle className="w-5 h-5" />
+            Check before filing
+          </div>
+          <ul className="list-disc list-inside space-y-1 text-sm text-yellow-800">
+            {report.issues.map(issue => <li key={issue}>{issue}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <Section title="B2B Invoices" empty={report.b2b.length === 0}>
+        <thead className="bg-gray-50">
+          <tr>
+            <th className={headerClass}>Invoice</th>
+            <th className={headerClass}>Customer</th>
+            <th className={headerClass}>Place of Supply</th>
+            <th className={amountHeaderClass}>Invoice Value</th>
+            <TaxHeaders />
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {report.b2b.map(row => (
+            <tr key={`${row.invoiceNumber}-${row.taxRate}`} className="hover:bg-gray-50 transition-colors duration-200">
+              <td className={cellClass}>
+                {row.invoiceNumber}
+                <span className="block text-xs text-gray-500">{format(parseISO(row.invoiceDate), 'MMM dd, yyyy')}</span>
+              </td>
+              <td className={cellClass}>
+                {row.customerName}
+                <span className="block text-xs text-gray-500">{row.customerGstin}</span>
+              </td>
+              <td className={cellClass}>{describeState(row.placeOfSupply)}</td>
+              <td className={amountCellClass}>{formatMoney(row.invoiceValue)}</td>
+              <TaxCells tax={row} />
+            </tr>
+          ))}
+        </tbody>
+      </Section>
+
+      <Section title="B2C (Small)" empty={report.b2cs.length === 0}>
+        <thead className="bg-gray-50">
+          <tr>
+            <th className={headerClass}>Place of Supply</th>
+            <th className={headerClass}>Supply</th>
+            <TaxHeaders />
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {report.b2cs.map(row => (
+            <tr key={`${row.placeOfSupply}-${row.interState}-${row.taxRate}`} className="hover:bg-gray-50 transition-colors duration-200">
+              <td className={cellClass}>{describeState(row.placeOfSupply) || '—'}</td>
+              <td className={cellClass}>{row.interState ? 'Inter-state' : 'Intra-state'}</td>
+              <TaxCells tax={row} />
+            </tr>
+          ))}
+        </tbody>
+      </Section>
+
+      <Section title="Nil Rated" empty={report.nil.length === 0}>
+        <thead className="bg-gray-50">
+          <tr>
+            <th className={headerClass}>Supply</th>
+            <th className={amountHeaderClass}>Value</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {report.nil.map(row => (
+            <tr key={row.supplyType} className="hover:bg-gray-50 transition-colors duration-200">
+              <td className={cellClass}>
+                {row.supplyType.startsWith('INTRA') ? 'Intra-state' : 'Inter-state'} to
+                {row.supplyType.endsWith('B2B') ? ' registered' : ' unregistered'} customers
+              </td>
+              <td className={amountCellClass}>{formatMoney(row.nilValue)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </Section>
+
+      <Section title="HSN Summary" empty={report.hsn.length === 0}>
+        <thead className="bg-gray-50">
+          <tr>
+            <th className={headerClass}>HSN</th>
+            <th className={headerClass}>Description</th>
+            <th className={amountHeaderClass}>Quantity</th>
+            <th className={amountHeaderClass}>Total Value</th>
+            <TaxHeaders />
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {report.hsn.map(row => (
+            <tr key={`${row.hsnCode}-${row.unit}-${row.taxRate}`} className="hover:bg-gray-50 transition-colors duration-200">
+              <td className={cellClass}>{row.hsnCode || '—'}</td>
+              <td className={cellClass}>{row.description}</td>
+              <td className={amountCellClass}>{formatQuantity(row.quantity, row.unit)}</td>
+              <td className={amountCellClass}>{formatMoney(row.totalValue)}</td>
+              <TaxCells tax={row} />
+            </tr>
+          ))}
+        </tbody>
+      </Section>
+    </div>
+  );
+}
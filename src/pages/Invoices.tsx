@@ -0,0 +1,172 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Download, FileSpreadsheet, FileText, Search, XCircle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useData } from '../contexts/DataContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { Invoice } from '../types';
+import { formatMoney } from '../utils/money';
+import { getFinancialYear } from '../utils/invoice';
+import { buildTaxInvoicePdf, invoiceFileName } from '../utils/invoicePdf';
+
+export function Invoices() {
+  const { invoices, cancelInvoice } = useData();
+  const { businessProfile } = useSettings();
+  const [financialYear, setFinancialYear] = useState(getFinancialYear(format(new Date(), 'yyyy-MM-dd')));
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const financialYears = useMemo(
+    () => [...new Set([financialYear, ...invoices.map(i => i.financialYear)])].sort().reverse(),
+    [invoices, financialYear]
+  );
+
+  const rows = invoices
+    .filter(i => i.financialYear === financialYear)
+    .filter(i =>
+      i.invoiceNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      i.customerName.toLowerCase().includes(searchTerm.toLowerCase())
+    )
+    .sort((a, b) => b.sequence - a.sequence);
+  const issued = rows.filter(i => !i.cancelled);
+
+  const handleCancel = (invoice: Invoice) => {
+    if (window.confirm(
+      `Cancel ${invoice.invoiceNumber}? The number stays used and its orders can go on a new invoice.`
+    )) {
+      cancelInvoice(invoice.id);
+    }
+  };
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Tax Invoices</h1>
+          <p className="text-gray-600">GST invoices issued from orders and billing periods</p>
+        </div>
+        <div className="flex gap-3">
+          <select
+            value={financialYear}
+            onChange={(e) => setFinancialYear(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+          >
+            {financialYears.map(year => (
+              <option key={year} value={year}>FY {year}</option>
+            ))}
+          </select>
+          <Link
+            to="/gstr1"
+            className="inline-flex items-center gap-2 bg-purple-600 text-white px-4 py-2 rounded-xl font-medium hover:bg-purple-700 transition-colors duration-200"
+          >
+            <FileSpreadsheet className="w-5 h-5" />
+            GSTR-1
+          </Link>
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-6">
+        <div className="bg-white rounded-2xl shadow-soft p-6">
+          <p className="text-sm font-medium text-gray-500">Taxable Value</p>
+          <p className="text-2xl font-bold text-gray-900">{formatMoney(issued.reduce((sum, i) => sum + i.taxableValue, 0))}</p>
+        </div>
+        <div className="bg-white rounded-2xl shadow-soft p-6">
+          <p className="text-sm font-medium text-gray-500">GST</p>
+          <p className="text-2xl font-bold text-gray-900">{formatMoney(issued.reduce((sum, i) => sum + i.cgst + i.sgst + i.igst, 0))}</p>
+        </div>
+        <div className="bg-white rounded-2xl shadow-soft p-6">
+          <p className="text-sm font-medium text-gray-500">Invoiced</p>
+          <p className="text-2xl font-bold text-gray-900">{formatMoney(issued.reduce((sum, i) => sum + i.totalAmount, 0))}</p>
+        </div>
+      </div>
+
+      {/* Search */}
+      <div className="mb-6">
+        <div className="relative max-w-md">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search by invoice number or customer..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+          />
+        </div>
+      </div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white rounded-2xl shadow-soft overflow-hidden"
+      >
+        {rows.length === 0 ? (
+          <div className="text-center py-12">
+            <FileText className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No invoices</h3>
+            <p className="text-gray-500">
+              {searchTerm ? 'Try adjusting your search terms' : 'Issue one from an order or a bill in a billing run'}
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Invoice</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Taxable</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">GST</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total</th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rows.map(invoice => (
+                  <tr key={invoice.id} className={`hover:bg-gray-50 transition-colors duration-200 ${invoice.cancelled ? 'text-gray-400' : ''}`}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <span className={invoice.cancelled ? 'line-through' : 'text-gray-900'}>{invoice.invoiceNumber}</span>
+                      {invoice.cancelled && <span className="ml-2 px-2 py-0.5 bg-red-100 text-red-700 rounded-full text-xs">cancelled</span>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {format(parseISO(invoice.invoiceDate), 'MMM dd, yyyy')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {invoice.customerName}
+                      {invoice.customerGstin && <span className="block text-xs text-gray-500">{invoice.customerGstin}</span>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{formatMoney(invoice.taxableValue)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right">{formatMoney(invoice.cgst + invoice.sgst + invoice.igst)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-right">{formatMoney(invoice.totalAmount)}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right">
+                      <div className="flex items-center justify-end gap-2">
+                        <button
+                          onClick={() => buildTaxInvoicePdf(invoice, businessProfile).save(invoiceFileName(invoice))}
+                          className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors duration-200"
+                          title="Download PDF"
+                        >
+                          <Download className="w-4 h-4" />
+                        </button>
+                        {!invoice.cancelled && (
+                          <button
+                            onClick={() => handleCancel(invoice)}
+                            className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors duration-200"
+                            title="Cancel invoice"
+                          >
+                            <XCircle className="w-4 h-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
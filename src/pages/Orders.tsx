@@ -1,11 +1,86 @@
 import React, { useState, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Plus, Edit2, Trash2, ShoppingCart, Search, Check, Clock, Filter, ChevronDown, ChevronUp } from 'lucide-react';
+import { Plus, Edit2, Trash2, ShoppingCart, Search, Check, Clock, Filter, ChevronDown, ChevronUp, Repeat, FileText, Truck } from 'lucide-react';
 import { useData } from '../contexts/DataContext';
-import { Order, OrderItem } from '../types';
+import { Discount, DiscountType, Order, OrderStatus } from '../types';
 import { format } from 'date-fns';
+import { useSettings } from '../contexts/SettingsContext';
+import { buildOrderItems, calculateOrderTotals, describeDiscount, describeItem, describeOrderCharges, getLineTotal } from '../utils/orders';
+import { DEFAULT_UNIT, isValidQuantity, quantityStep, UNITS } from '../utils/units';
+import { formatMoney, parseRupees, rupeesInput, toPaise } from '../utils/money';
+import { buildTaxInvoicePdf, invoiceFileName } from '../utils/invoicePdf';
+import { carryDelivery, clearDelivery, getDeliveryStatus, ORDER_STATUS_LABELS } from '../utils/deliveries';
+import { DeliveryModal } from '../components/Orders/DeliveryModal';
+
+// Quantities stay as typed until submit so decimals like "0." can be entered.
+interface OrderFormItem {
+  productId: string;
+  variantId: string;
+  quantity: string;
+  discountType: DiscountType;
+  discount: string;
+}
+
+// Flat discounts are typed in rupees and kept in paise; percentages stay as typed.
+function parseDiscount(type: DiscountType, value: string): Discount | undefined {
+  const amount = parseFloat(value);
+  if (!(amount > 0)) return undefined;
+  return { type, value: type === 'flat' ? toPaise(amount) : amount };
+}
+
+function discountInput(discount?: Discount): string {
+  if (!discount) return '';
+  return discount.type === 'flat' ? rupeesInput(discount.value) : String(discount.value);
+}
+
+function isValidDiscount(type: DiscountType, value: string): boolean {
+  if (!value) return true;
+  const amount = parseFloat(value);
+  return !isNaN(amount) && amount >= 0 && (type === 'flat' || amount <= 100);
+}
+
+const emptyForm = () => ({
+  customerId: '',
+  orderDate: format(new Date(), 'yyyy-MM-dd'),
+  items: [] as OrderFormItem[],
+  // A delivered order is partial when its recorded lines fell short; see getDeliveryStatus.
+  status: 'pending' as 'pending' | 'delivered',
+  discountType: 'flat' as DiscountType,
+  discount: '',
+  deliveryCharge: '',
+});
+
+const orderStatusStyles: Record<OrderStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  partially_delivered: 'bg-orange-100 text-orange-800',
+  delivered: 'bg-green-100 text-green-800',
+};
+
+const paymentStatusStyles = {
+  paid: 'bg-green-100 text-green-800',
+  partial: 'bg-orange-100 text-orange-800',
+  unpaid: 'bg-red-100 text-red-800',
+};
 
 function OrderCard({ order, onEdit, onDelete, onToggleStatus }: { order: Order, onEdit: (order: Order) => void, onDelete: (id: string) => void, onToggleStatus: (order: Order) => void }) {
+  const { invoices, getOrderPaymentInfo, issueInvoice } = useData();
+  const { businessProfile } = useSettings();
+  const payment = getOrderPaymentInfo(order);
+  const invoice = invoices.find(i => i.id === order.invoiceId);
+  const [isDeliveryOpen, setIsDeliveryOpen] = useState(false);
+
+  // An invoiced order always reprints its invoice; a number is only used on confirmation.
+  const handleInvoice = () => {
+    const printed = invoice ?? (
+      window.confirm('Issue a tax invoice for this order? Its number cannot be reused.')
+        ? issueInvoice(order.customerId, [order.id])
+        : null
+    );
+    if (printed) {
+      buildTaxInvoicePdf(printed, businessProfile).save(invoiceFileName(printed));
+    }
+  };
+
   return (
     <div className="bg-white rounded-2xl shadow-soft p-4 border border-gray-100">
       <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
@@ -14,36 +89,69 @@ function OrderCard({ order, onEdit, onDelete, onToggleStatus }: { order: Order,
             <p className="text-sm font-semibold text-gray-600">
               Order Date: {format(new Date(order.orderDate), 'MMM dd, yyyy')}
             </p>
-            <span className={`px-3 py-1 rounded-full text-xs font-medium ${
-              order.status === 'delivered' 
-                ? 'bg-green-100 text-green-800' 
-                : 'bg-yellow-100 text-yellow-800'
-            }`}>
-              {order.status}
+            <span className={`px-3 py-1 rounded-full text-xs font-medium ${orderStatusStyles[order.status]}`}>
+              {ORDER_STATUS_LABELS[order.status]}
             </span>
+            <span className={`px-3 py-1 rounded-full text-xs font-medium ${paymentStatusStyles[payment.status]}`}>
+              {payment.status}
+            </span>
+            {order.subscriptionId && (
+              <span className="inline-flex items-center gap-1 text-xs text-gray-500" title="Created from a subscription">
+                <Repeat className="w-3 h-3" />
+                daily
+              </span>
+            )}
+            {invoice && (
+              <span className="text-xs font-medium text-purple-700">{invoice.invoiceNumber}</span>
+            )}
           </div>
           <div className="space-y-1 border-l-2 border-gray-200 pl-3">
             {order.items.map((item, index) => (
               <p key={index} className="text-sm text-gray-700">
-                {item.quantity}x {item.productName} - ₹{(item.price * item.quantity).toFixed(2)}
+                {describeItem(item)} - {formatMoney(getLineTotal(item))}
+                {item.discount && <span className="text-green-600"> ({describeDiscount(item.discount)})</span>}
               </p>
             ))}
+            {describeOrderCharges(order).length > 0 && (
+              <p className="text-sm text-gray-500">
+                Subtotal {formatMoney(order.subtotal ?? 0)}; {describeOrderCharges(order).join(', ')}
+              </p>
+            )}
           </div>
           <p className="text-md font-bold text-gray-900 mt-2">
-            Total: ₹{order.totalAmount.toFixed(2)}
+            Total: {formatMoney(order.totalAmount)}
+            {payment.status === 'partial' && (
+              <span className="ml-2 text-sm font-medium text-orange-600">
+                ({formatMoney(payment.paidAmount)} paid, {formatMoney(payment.dueAmount)} due)
+              </span>
+            )}
           </p>
         </div>
         <div className="flex items-center gap-2 self-end sm:self-center">
           <button
             onClick={() => onToggleStatus(order)}
             className={`p-2 rounded-lg transition-colors duration-200 ${
-              order.status === 'delivered'
+              order.status !== 'pending'
                 ? 'text-yellow-600 hover:bg-yellow-50'
                 : 'text-green-600 hover:bg-green-50'
             }`}
-            title={order.status === 'delivered' ? 'Mark as Pending' : 'Mark as Delivered'}
+            title={order.status !== 'pending' ? 'Mark as Pending' : 'Mark as Delivered'}
+          >
+            {order.status !== 'pending' ? <Clock className="w-5 h-5" /> : <Check className="w-5 h-5" />}
+          </button>
+          <button
+            onClick={() => setIsDeliveryOpen(true)}
+            className="p-2 text-gray-400 hover:text-orange-600 hover:bg-orange-50 rounded-lg transition-colors duration-200"
+            title="Record Short Delivery or Returns"
+          >
+            <Truck className="w-5 h-5" />
+          </button>
+          <button
+            onClick={handleInvoice}
+            className="p-2 text-gray-400 hover:text-purple-600 hover:bg-purple-50 rounded-lg transition-colors duration-200"
+            title={invoice ? `Download ${invoice.invoiceNumber}` : 'Issue Tax Invoice'}
           >
-            {order.status === 'delivered' ? <Clock className="w-5 h-5" /> : <Check className="w-5 h-5" />}
+            <FileText className="w-5 h-5" />
           </button>
           <button
             onClick={() => onEdit(order)}
@@ -59,6 +167,9 @@ function OrderCard({ order, onEdit, onDelete, onToggleStatus }: { order: Order,
           </button>
         </div>
       </div>
+      <AnimatePresence>
+        {isDeliveryOpen && <DeliveryModal order={order} onClose={() => setIsDeliveryOpen(false)} />}
+      </AnimatePresence>
     </div>
   );
 }
@@ -103,17 +214,14 @@ function CustomerOrdersGroup({ customerName, orders, onEdit, onDelete, onToggleS
 
 
 export function Orders() {
-  const { orders, customers, products, addOrder, updateOrder, deleteOrder } = useData();
+  const { orders, customers, products, invoices, addOrder, updateOrder, deleteOrder, getCustomerRates } = useData();
+  const { settings } = useSettings();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingOrder, setEditingOrder] = useState<Order | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState<'all' | 'pending' | 'delivered'>('all');
-  const [formData, setFormData] = useState({
-    customerId: '',
-    orderDate: format(new Date(), 'yyyy-MM-dd'),
-    items: [] as { productId: string; quantity: number }[],
-    status: 'pending' as 'pending' | 'delivered'
-  });
+  const [statusFilter, setStatusFilter] = useState<'all' | OrderStatus>('all');
+  const [formData, setFormData] = useState(emptyForm);
+  const [formError, setFormError] = useState('');
 
   const filteredOrders = useMemo(() => orders.filter(order => {
     const matchesSearch = order.customerName.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -129,6 +237,24 @@ export function Orders() {
     }, {} as Record<string, Order[]>);
   }, [filteredOrders]);
 
+  const buildFormItems = (items: OrderFormItem[]) => buildOrderItems(
+    items.map(item => ({
+      productId: item.productId,
+      variantId: item.variantId || undefined,
+      quantity: parseFloat(item.quantity),
+      discount: parseDiscount(item.discountType, item.discount),
+    })),
+    products,
+    formData.orderDate,
+    getCustomerRates(formData.customerId)
+  );
+
+  const formTotals = calculateOrderTotals({
+    items: buildFormItems(formData.items.filter(item => item.productId && parseFloat(item.quantity) > 0)),
+    discount: parseDiscount(formData.discountType, formData.discount),
+    deliveryCharge: parseRupees(formData.deliveryCharge) ?? 0,
+  }, settings.rounding);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.customerId || formData.items.length === 0) return;
@@ -136,28 +262,59 @@ export function Orders() {
     const customer = customers.find(c => c.id === formData.customerId);
     if (!customer) return;
 
-    const orderItems: OrderItem[] = formData.items.map(item => {
+    const parsedItems = formData.items.map(item => ({
+      productId: item.productId,
+      variantId: item.variantId || undefined,
+      quantity: parseFloat(item.quantity),
+    }));
+    const invalid = parsedItems.find(item => {
       const product = products.find(p => p.id === item.productId);
-      return {
-        productId: item.productId,
-        productName: product?.name || '',
-        quantity: item.quantity,
-        price: product?.price || 0
-      };
+      // Packs are always counted whole; loose quantities follow the unit's precision.
+      return item.variantId
+        ? !isValidQuantity(item.quantity, 'piece')
+        : !isValidQuantity(item.quantity, product?.unit);
     });
+    if (invalid) {
+      const product = products.find(p => p.id === invalid.productId);
+      setFormError(`Please enter a valid quantity for ${product?.name || 'each item'}.`);
+      return;
+    }
+
+    const badDiscount = formData.items.find(item => !isValidDiscount(item.discountType, item.discount));
+    if (badDiscount || !isValidDiscount(formData.discountType, formData.discount)) {
+      setFormError('Discounts must be positive, and percentages at most 100.');
+      return;
+    }
+    const deliveryCharge = formData.deliveryCharge ? parseRupees(formData.deliveryCharge) : 0;
+    if (deliveryCharge === undefined || deliveryCharge < 0) {
+      setFormError('Please enter a valid delivery charge.');
+      return;
+    }
 
-    const totalAmount = orderItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+    // Lines already delivered keep their short deliveries and returns, unless
+    // the order goes back to pending.
+    const builtItems = buildFormItems(formData.items);
+    const orderItems = editingOrder && formData.status === 'delivered'
+      ? carryDelivery(editingOrder.items, builtItems)
+      : builtItems;
+    const discount = parseDiscount(formData.discountType, formData.discount);
 
     const orderData = {
       customerId: formData.customerId,
       customerName: customer.name,
       items: orderItems,
-      totalAmount,
-      status: formData.status,
+      discount,
+      ...calculateOrderTotals({ items: orderItems, discount, deliveryCharge }, settings.rounding),
+      status: formData.status === 'delivered' ? getDeliveryStatus(orderItems) : formData.status,
       orderDate: formData.orderDate,
       deliveryDate: formData.status === 'delivered' ? new Date().toISOString() : undefined
     };
 
+    if (editingOrder?.invoiceId) {
+      setFormError('This order is on a tax invoice. Cancel the invoice before changing it.');
+      return;
+    }
+
     if (editingOrder) {
       updateOrder(editingOrder.id, orderData);
     } else {
@@ -168,28 +325,45 @@ export function Orders() {
   };
 
   const resetForm = () => {
-    setFormData({
-      customerId: '',
-      orderDate: format(new Date(), 'yyyy-MM-dd'),
-      items: [],
-      status: 'pending'
-    });
+    setFormData(emptyForm());
+    setFormError('');
     setIsModalOpen(false);
     setEditingOrder(null);
   };
 
+  // The invoice is a snapshot of the order, so the order is fixed until the
+  // invoice is cancelled.
+  const isInvoiced = (order: Order) => {
+    if (!order.invoiceId) return false;
+    const invoice = invoices.find(i => i.id === order.invoiceId);
+    window.alert(`This order is on invoice ${invoice?.invoiceNumber ?? ''}. Cancel the invoice on the Invoices page before changing it.`);
+    return true;
+  };
+
   const handleEdit = (order: Order) => {
+    if (isInvoiced(order)) return;
     setEditingOrder(order);
     setFormData({
       customerId: order.customerId,
       orderDate: order.orderDate,
-      items: order.items.map(item => ({ productId: item.productId, quantity: item.quantity })),
-      status: order.status
+      items: order.items.map(item => ({
+        productId: item.productId,
+        variantId: item.variantId ?? '',
+        quantity: String(item.quantity),
+        discountType: item.discount?.type ?? 'flat',
+        discount: discountInput(item.discount),
+      })),
+      status: order.status === 'pending' ? 'pending' : 'delivered',
+      discountType: order.discount?.type ?? 'flat',
+      discount: discountInput(order.discount),
+      deliveryCharge: order.deliveryCharge ? rupeesInput(order.deliveryCharge) : '',
     });
     setIsModalOpen(true);
   };
 
   const handleDelete = (id: string) => {
+    const order = orders.find(o => o.id === id);
+    if (order && isInvoiced(order)) return;
     if (window.confirm('Are you sure you want to delete this order?')) {
       deleteOrder(id);
     }
@@ -198,7 +372,7 @@ export function Orders() {
   const addOrderItem = () => {
     setFormData({
       ...formData,
-      items: [...formData.items, { productId: '', quantity: 1 }]
+      items: [...formData.items, { productId: '', variantId: '', quantity: '1', discountType: 'flat', discount: '' }]
     });
   };
 
@@ -209,18 +383,41 @@ export function Orders() {
     });
   };
 
-  const updateOrderItem = (index: number, field: 'productId' | 'quantity', value: string | number) => {
+  const updateOrderItem = (index: number, field: keyof OrderFormItem, value: string) => {
     const updatedItems = [...formData.items];
-    updatedItems[index] = { ...updatedItems[index], [field]: value };
+    updatedItems[index] = {
+      ...updatedItems[index],
+      [field]: value,
+      // A different product has different packs.
+      ...(field === 'productId' ? { variantId: '' } : {}),
+    };
     setFormData({ ...formData, items: updatedItems });
+    setFormError('');
   };
 
+  // Back to pending drops any recorded short delivery or returns, so the order
+  // is billed as ordered again. An invoiced order's total is left as invoiced.
   const toggleOrderStatus = (order: Order) => {
-    const newStatus = order.status === 'pending' ? 'delivered' : 'pending';
-    updateOrder(order.id, { 
-      status: newStatus,
-      deliveryDate: newStatus === 'delivered' ? new Date().toISOString() : undefined
-    });
+    if (order.status === 'pending') {
+      updateOrder(order.id, {
+        status: getDeliveryStatus(order.items),
+        deliveryDate: new Date().toISOString()
+      });
+      return;
+    }
+    const recorded = order.items.some(item => item.deliveredQuantity !== undefined);
+    if (recorded && !order.invoiceId) {
+      if (!window.confirm('Marking this order pending discards its recorded short delivery and returns. Continue?')) return;
+      const items = order.items.map(clearDelivery);
+      updateOrder(order.id, {
+        items,
+        ...calculateOrderTotals({ ...order, items }, settings.rounding),
+        status: 'pending',
+        deliveryDate: undefined,
+      });
+      return;
+    }
+    updateOrder(order.id, { status: 'pending', deliveryDate: undefined });
   };
 
   return (
@@ -261,6 +458,7 @@ export function Orders() {
           >
             <option value="all">All Orders</option>
             <option value="pending">Pending</option>
+            <option value="partially_delivered">Partially Delivered</option>
             <option value="delivered">Delivered</option>
           </select>
         </div>
@@ -327,7 +525,11 @@ export function Orders() {
                     </label>
                     <select
                       value={formData.customerId}
-                      onChange={(e) => setFormData({ ...formData, customerId: e.target.value })}
+                      onChange={(e) => {
+                        // Each customer brings their own delivery charge.
+                        const deliveryCharge = customers.find(c => c.id === e.target.value)?.deliveryCharge;
+                        setFormData({ ...formData, customerId: e.target.value, deliveryCharge: deliveryCharge ? rupeesInput(deliveryCharge) : '' });
+                      }}
                       className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
                       required
                     >
@@ -379,43 +581,156 @@ export function Orders() {
                     </button>
                   </div>
                   <div className="space-y-3">
-                    {formData.items.map((item, index) => (
-                      <div key={index} className="flex gap-3 items-center">
-                        <select
-                          value={item.productId}
-                          onChange={(e) => updateOrderItem(index, 'productId', e.target.value)}
-                          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
-                          required
-                        >
-                          <option value="">Select Product</option>
-                          {products.map(product => (
-                            <option key={product.id} value={product.id}>{product.name}</option>
-                          ))}
-                        </select>
-                        <input
-                          type="number"
-                          min="1"
-                          value={item.quantity}
-                          onChange={(e) => updateOrderItem(index, 'quantity', parseInt(e.target.value) || 1)}
-                          className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
-                          placeholder="Qty"
-                          required
-                        />
-                        <button
-                          type="button"
-                          onClick={() => removeOrderItem(index)}
-                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </button>
-                      </div>
-                    ))}
+                    {formData.items.map((item, index) => {
+                      const product = products.find(p => p.id === item.productId);
+                      const unit = item.variantId ? 'packet' : product?.unit;
+                      return (
+                        <div key={index} className="flex gap-3 items-center">
+                          <select
+                            value={item.productId}
+                            onChange={(e) => updateOrderItem(index, 'productId', e.target.value)}
+                            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                            required
+                          >
+                            <option value="">Select Product</option>
+                            {products.map(p => (
+                              <option key={p.id} value={p.id}>{p.name}</option>
+                            ))}
+                          </select>
+                          {product?.variants && product.variants.length > 0 && (
+                            <select
+                              value={item.variantId}
+                              onChange={(e) => updateOrderItem(index, 'variantId', e.target.value)}
+                              className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                            >
+                              <option value="">Loose</option>
+                              {product.variants.map(variant => (
+                                <option key={variant.id} value={variant.id}>{variant.name}</option>
+                              ))}
+                            </select>
+                          )}
+                          <input
+                            type="number"
+                            min="0"
+                            step={quantityStep(unit)}
+                            value={item.quantity}
+                            onChange={(e) => updateOrderItem(index, 'quantity', e.target.value)}
+                            className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                            placeholder="Qty"
+                            required
+                          />
+                          <span className="w-8 text-sm text-gray-500">{UNITS[unit ?? DEFAULT_UNIT].short}</span>
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={item.discount}
+                            onChange={(e) => updateOrderItem(index, 'discount', e.target.value)}
+                            className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                            placeholder="Disc."
+                            title="Line discount"
+                          />
+                          <select
+                            value={item.discountType}
+                            onChange={(e) => updateOrderItem(index, 'discountType', e.target.value)}
+                            className="w-14 px-1 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                          >
+                            <option value="flat">₹</option>
+                            <option value="percent">%</option>
+                          </select>
+                          <button
+                            type="button"
+                            onClick={() => removeOrderItem(index)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      );
+                    })}
                     {formData.items.length === 0 && (
                       <p className="text-gray-500 text-sm">No items added yet</p>
                     )}
                   </div>
                 </div>
 
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Order Discount
+                    </label>
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={formData.discount}
+                        onChange={(e) => {
+                          setFormData({ ...formData, discount: e.target.value });
+                          setFormError('');
+                        }}
+                        className="flex-1 min-w-0 px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                        placeholder="0"
+                      />
+                      <select
+                        value={formData.discountType}
+                        onChange={(e) => setFormData({ ...formData, discountType: e.target.value as DiscountType })}
+                        className="w-16 px-2 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                      >
+                        <option value="flat">₹</option>
+                        <option value="percent">%</option>
+                      </select>
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Delivery Charge (₹)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={formData.deliveryCharge}
+                      onChange={(e) => {
+                        setFormData({ ...formData, deliveryCharge: e.target.value });
+                        setFormError('');
+                      }}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                      placeholder="0.00"
+                    />
+                  </div>
+                </div>
+
+                <div className="bg-gray-50 rounded-xl p-4 space-y-1 text-sm">
+                  <div className="flex justify-between text-gray-600">
+                    <span>Subtotal</span>
+                    <span>{formatMoney(formTotals.subtotal)}</span>
+                  </div>
+                  {formTotals.discountAmount > 0 && (
+                    <div className="flex justify-between text-green-600">
+                      <span>Discount</span>
+                      <span>{formatMoney(-formTotals.discountAmount)}</span>
+                    </div>
+                  )}
+                  {formTotals.deliveryCharge > 0 && (
+                    <div className="flex justify-between text-gray-600">
+                      <span>Delivery</span>
+                      <span>{formatMoney(formTotals.deliveryCharge)}</span>
+                    </div>
+                  )}
+                  {formTotals.roundOff !== 0 && (
+                    <div className="flex justify-between text-gray-600">
+                      <span>Round off</span>
+                      <span>{formTotals.roundOff > 0 ? '+' : ''}{formatMoney(formTotals.roundOff)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between font-bold text-gray-900 pt-1 border-t border-gray-200">
+                    <span>Total</span>
+                    <span>{formatMoney(formTotals.totalAmount)}</span>
+                  </div>
+                </div>
+                {formError && <p className="text-red-500 text-sm">{formError}</p>}
+
                 <div className="flex gap-3 pt-4">
                   <button
                     type="button"
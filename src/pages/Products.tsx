@@ -1,15 +1,43 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Plus, Edit2, Trash2, Package, Search } from 'lucide-react';
+import { Plus, Edit2, Trash2, Package, Search, History, TrendingUp, Tag } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { useData } from '../contexts/DataContext';
-import { Product } from '../types';
+import { Product, ProductUnit } from '../types';
+import { format } from 'date-fns';
+import { DEFAULT_UNIT, PRODUCT_UNITS, UNITS, formatQuantity, quantityStep } from '../utils/units';
+import { getPriceHistory, getPriceVersionOn } from '../utils/pricing';
+import { PriceTimeline } from '../components/Products/PriceTimeline';
+import { BulkPriceModal } from '../components/Products/BulkPriceModal';
+import { formatMoney, rupeesInput, toPaise } from '../utils/money';
+import { GST_RATES } from '../utils/gst';
+
+interface VariantFormItem {
+  id: string;
+  name: string;
+  size: string;
+  price: string;
+}
+
+const emptyForm = {
+  name: '',
+  price: '',
+  unit: DEFAULT_UNIT as ProductUnit,
+  variants: [] as VariantFormItem[],
+  effectiveFrom: format(new Date(), 'yyyy-MM-dd'),
+  hsnCode: '',
+  taxRate: '0',
+};
 
 export function Products() {
-  const { products, addProduct, updateProduct, deleteProduct } = useData();
+  const { products, addProduct, updateProduct, setProductPrice, deleteProduct } = useData();
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
-  const [formData, setFormData] = useState({ name: '', price: '' });
+  const [formData, setFormData] = useState(emptyForm);
+  const [formError, setFormError] = useState('');
+  const [historyProductId, setHistoryProductId] = useState<string | null>(null);
+  const [isBulkModalOpen, setIsBulkModalOpen] = useState(false);
 
   const filteredProducts = products.filter(product =>
     product.name.toLowerCase().includes(searchTerm.toLowerCase())
@@ -19,29 +47,83 @@ export function Products() {
     e.preventDefault();
     if (!formData.name || !formData.price) return;
 
+    const variants = formData.variants.map(v => ({
+      id: v.id,
+      name: v.name.trim(),
+      size: parseFloat(v.size),
+      price: toPaise(parseFloat(v.price)),
+    }));
+    if (variants.some(v => !v.name || !(v.size > 0) || !(v.price >= 0))) {
+      setFormError('Every pack needs a name, a size and a price.');
+      return;
+    }
+
+    const productData = {
+      name: formData.name,
+      price: toPaise(parseFloat(formData.price)),
+      unit: formData.unit,
+      variants: variants.length > 0 ? variants : undefined,
+      hsnCode: formData.hsnCode.trim() || undefined,
+      taxRate: Number(formData.taxRate),
+    };
+
     if (editingProduct) {
-      updateProduct(editingProduct.id, {
-        name: formData.name,
-        price: parseFloat(formData.price)
-      });
+      updateProduct(editingProduct.id, productData);
+      // Price edits start a new version from the chosen day instead of
+      // rewriting the rate earlier orders were entered at.
+      const version = getPriceVersionOn(editingProduct, formData.effectiveFrom);
+      const priceChanged = productData.price !== version.price ||
+        variants.some(v => v.price !== (version.variantPrices?.[v.id] ?? editingProduct.variants?.find(pv => pv.id === v.id)?.price));
+      if (priceChanged) {
+        setProductPrice(editingProduct.id, {
+          effectiveFrom: formData.effectiveFrom,
+          price: productData.price,
+          variantPrices: variants.length > 0 ? Object.fromEntries(variants.map(v => [v.id, v.price])) : undefined,
+        });
+      }
     } else {
-      addProduct({
-        name: formData.name,
-        price: parseFloat(formData.price)
-      });
+      addProduct(productData);
     }
 
-    setFormData({ name: '', price: '' });
+    setFormData(emptyForm);
+    setFormError('');
     setIsModalOpen(false);
     setEditingProduct(null);
   };
 
   const handleEdit = (product: Product) => {
     setEditingProduct(product);
-    setFormData({ name: product.name, price: product.price.toString() });
+    setFormData({
+      name: product.name,
+      price: rupeesInput(product.price),
+      unit: product.unit ?? DEFAULT_UNIT,
+      variants: (product.variants ?? []).map(v => ({ id: v.id, name: v.name, size: String(v.size), price: rupeesInput(v.price) })),
+      effectiveFrom: format(new Date(), 'yyyy-MM-dd'),
+      hsnCode: product.hsnCode ?? '',
+      taxRate: String(product.taxRate ?? 0),
+    });
+    setFormError('');
     setIsModalOpen(true);
   };
 
+  // Shows the prices already in force on the chosen day, so only real edits make a new version.
+  const changeEffectiveFrom = (effectiveFrom: string) => {
+    if (!editingProduct || !effectiveFrom) {
+      setFormData({ ...formData, effectiveFrom });
+      return;
+    }
+    const version = getPriceVersionOn(editingProduct, effectiveFrom);
+    setFormData({
+      ...formData,
+      effectiveFrom,
+      price: rupeesInput(version.price),
+      variants: formData.variants.map(v => {
+        const price = version.variantPrices?.[v.id];
+        return price === undefined ? v : { ...v, price: rupeesInput(price) };
+      }),
+    });
+  };
+
   const handleDelete = (id: string) => {
     if (window.confirm('Are you sure you want to delete this product?')) {
       deleteProduct(id);
@@ -50,10 +132,29 @@ export function Products() {
 
   const openAddModal = () => {
     setEditingProduct(null);
-    setFormData({ name: '', price: '' });
+    setFormData({ ...emptyForm, effectiveFrom: format(new Date(), 'yyyy-MM-dd') });
+    setFormError('');
     setIsModalOpen(true);
   };
 
+  const addVariant = () => {
+    setFormData({
+      ...formData,
+      variants: [...formData.variants, { id: Math.random().toString(36).substr(2, 9), name: '', size: '', price: '' }]
+    });
+  };
+
+  const updateVariant = (index: number, field: keyof Omit<VariantFormItem, 'id'>, value: string) => {
+    const variants = [...formData.variants];
+    variants[index] = { ...variants[index], [field]: value };
+    setFormData({ ...formData, variants });
+    setFormError('');
+  };
+
+  const removeVariant = (index: number) => {
+    setFormData({ ...formData, variants: formData.variants.filter((_, i) => i !== index) });
+  };
+
   return (
     <div className="p-6">
       {/* Header */}
@@ -62,13 +163,30 @@ export function Products() {
           <h1 className="text-3xl font-bold text-gray-900">Products</h1>
           <p className="text-gray-600">Manage your product catalog</p>
         </div>
-        <button
-          onClick={openAddModal}
-          className="inline-flex items-center gap-2 bg-primary-600 text-white px-4 py-2 rounded-xl font-medium hover:bg-primary-700 transition-colors duration-200"
-        >
-          <Plus className="w-5 h-5" />
-          Add Product
-        </button>
+        <div className="flex gap-3">
+          <Link
+            to="/rates"
+            className="inline-flex items-center gap-2 bg-purple-600 text-white px-4 py-2 rounded-xl font-medium hover:bg-purple-700 transition-colors duration-200"
+          >
+            <Tag className="w-5 h-5" />
+            Special Rates
+          </Link>
+          <button
+            onClick={() => setIsBulkModalOpen(true)}
+            disabled={products.length === 0}
+            className="inline-flex items-center gap-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-xl font-medium hover:bg-gray-50 disabled:opacity-50 transition-colors duration-200"
+          >
+            <TrendingUp className="w-5 h-5" />
+            Bulk Price Change
+          </button>
+          <button
+            onClick={openAddModal}
+            className="inline-flex items-center gap-2 bg-primary-600 text-white px-4 py-2 rounded-xl font-medium hover:bg-primary-700 transition-colors duration-200"
+          >
+            <Plus className="w-5 h-5" />
+            Add Product
+          </button>
+        </div>
       </div>
 
       {/* Search */}
@@ -118,10 +236,37 @@ export function Products() {
                 </div>
               </div>
               <h3 className="text-lg font-semibold text-gray-900 mb-2">{product.name}</h3>
-              <p className="text-2xl font-bold text-primary-600">₹{product.price.toFixed(2)}</p>
+              <p className="text-2xl font-bold text-primary-600">
+                {formatMoney(product.price)}
+                <span className="text-sm font-medium text-gray-500"> / {UNITS[product.unit ?? DEFAULT_UNIT].short}</span>
+              </p>
+              {product.variants && product.variants.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {product.variants.map(variant => (
+                    <span key={variant.id} className="px-2 py-1 bg-gray-100 text-gray-700 rounded-lg text-xs font-medium">
+                      {variant.name} ({formatQuantity(variant.size, product.unit)}) {formatMoney(variant.price)}
+                    </span>
+                  ))}
+                </div>
+              )}
+              {(product.hsnCode || !!product.taxRate) && (
+                <p className="text-xs text-gray-500 mt-2">
+                  {product.hsnCode && `HSN ${product.hsnCode}`}
+                  {product.hsnCode && !!product.taxRate && ' · '}
+                  {!!product.taxRate && `GST ${product.taxRate}% incl.`}
+                </p>
+              )}
               <p className="text-sm text-gray-500 mt-2">
                 Added on {new Date(product.createdAt).toLocaleDateString()}
               </p>
+              <button
+                onClick={() => setHistoryProductId(historyProductId === product.id ? null : product.id)}
+                className="inline-flex items-center gap-1 mt-2 text-sm text-primary-600 hover:text-primary-700 font-medium"
+              >
+                <History className="w-4 h-4" />
+                {historyProductId === product.id ? 'Hide' : 'Price'} history ({getPriceHistory(product).length})
+              </button>
+              {historyProductId === product.id && <PriceTimeline product={product} />}
             </motion.div>
           ))}
         </AnimatePresence>
@@ -160,7 +305,7 @@ export function Products() {
               initial={{ opacity: 0, scale: 0.9 }}
               animate={{ opacity: 1, scale: 1 }}
               exit={{ opacity: 0, scale: 0.9 }}
-              className="bg-white rounded-2xl p-6 w-full max-w-md"
+              className="bg-white rounded-2xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto"
               onClick={(e) => e.stopPropagation()}
             >
               <h2 className="text-2xl font-bold text-gray-900 mb-6">
@@ -180,20 +325,137 @@ export function Products() {
                     required
                   />
                 </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Unit
+                    </label>
+                    <select
+                      value={formData.unit}
+                      onChange={(e) => setFormData({ ...formData, unit: e.target.value as ProductUnit })}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                    >
+                      {PRODUCT_UNITS.map(unit => (
+                        <option key={unit} value={unit}>{UNITS[unit].label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Price per {UNITS[formData.unit].short} (₹)
+                    </label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={formData.price}
+                      onChange={(e) => setFormData({ ...formData, price: e.target.value })}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                      placeholder="Enter price"
+                      required
+                    />
+                  </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      HSN Code
+                    </label>
+                    <input
+                      type="text"
+                      value={formData.hsnCode}
+                      onChange={(e) => setFormData({ ...formData, hsnCode: e.target.value })}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                      placeholder="e.g. 0401"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      GST Rate
+                    </label>
+                    <select
+                      value={formData.taxRate}
+                      onChange={(e) => setFormData({ ...formData, taxRate: e.target.value })}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                    >
+                      {GST_RATES.map(rate => (
+                        <option key={rate} value={rate}>{rate === 0 ? 'Exempt (0%)' : `${rate}%`}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500 -mt-2">Prices include GST; tax invoices show the tax taken out of them.</p>
                 <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Price (₹)
-                  </label>
-                  <input
-                    type="number"
-                    step="0.01"
-                    value={formData.price}
-                    onChange={(e) => setFormData({ ...formData, price: e.target.value })}
-                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
-                    placeholder="Enter price"
-                    required
-                  />
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="block text-sm font-medium text-gray-700">
+                      Pack Sizes
+                    </label>
+                    <button
+                      type="button"
+                      onClick={addVariant}
+                      className="text-primary-600 hover:text-primary-700 text-sm font-medium"
+                    >
+                      + Add Pack
+                    </button>
+                  </div>
+                  <div className="space-y-2">
+                    {formData.variants.map((variant, index) => (
+                      <div key={variant.id} className="flex gap-2 items-center">
+                        <input
+                          type="text"
+                          value={variant.name}
+                          onChange={(e) => updateVariant(index, 'name', e.target.value)}
+                          className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                          placeholder="e.g. 500 ml"
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          step={quantityStep(formData.unit)}
+                          value={variant.size}
+                          onChange={(e) => updateVariant(index, 'size', e.target.value)}
+                          className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                          placeholder={UNITS[formData.unit].short}
+                          title={`Size in ${UNITS[formData.unit].label.toLowerCase()}s`}
+                        />
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={variant.price}
+                          onChange={(e) => updateVariant(index, 'price', e.target.value)}
+                          className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                          placeholder="₹"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => removeVariant(index)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                    {formData.variants.length === 0 && (
+                      <p className="text-gray-500 text-sm">Sold loose only</p>
+                    )}
+                  </div>
+                  {formError && <p className="text-red-500 text-sm mt-2">{formError}</p>}
                 </div>
+                {editingProduct && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      New Prices Effective From
+                    </label>
+                    <input
+                      type="date"
+                      value={formData.effectiveFrom}
+                      onChange={(e) => changeEffectiveFrom(e.target.value)}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                      required
+                    />
+                    <p className="text-xs text-gray-500 mt-1">Orders already entered keep the price they were created with.</p>
+                  </div>
+                )}
                 <div className="flex gap-3 pt-4">
                   <button
                     type="button"
@@ -214,6 +476,10 @@ export function Products() {
           </motion.div>
         )}
       </AnimatePresence>
+
+      <AnimatePresence>
+        {isBulkModalOpen && <BulkPriceModal onClose={() => setIsBulkModalOpen(false)} />}
+      </AnimatePresence>
     </div>
   );
 }
@@ -0,0 +1,384 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Plus, Edit2, Trash2, Tag, Search, Users, User } from 'lucide-react';
+import { format } from 'date-fns';
+import { useData } from '../contexts/DataContext';
+import { RateCard } from '../types';
+import { describeRateCardItem, getStandardPrice } from '../utils/pricing';
+import { formatMoney, parseRupees, rupeesInput } from '../utils/money';
+
+type RateScope = 'customer' | 'group';
+
+const emptyForm = { scope: 'customer' as RateScope, customerId: '', group: '', productId: '', variantId: '', price: '', note: '' };
+
+export function RateExceptions() {
+  const { rateCards, customers, products, addRateCard, updateRateCard, deleteRateCard } = useData();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingRate, setEditingRate] = useState<RateCard | null>(null);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [formData, setFormData] = useState(emptyForm);
+  const [formError, setFormError] = useState('');
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const groups = [...new Set(customers.map(c => c.group).filter((g): g is string => !!g))].sort();
+  const selectedProduct = products.find(p => p.id === formData.productId);
+
+  const appliesTo = (rate: RateCard) => rate.customerId
+    ? customers.find(c => c.id === rate.customerId)?.name || 'Unknown customer'
+    : rate.group || '';
+
+  // Group rates first, then customers, each alphabetically, so the list reads like a rate sheet.
+  const rows = rateCards
+    .map(rate => ({
+      rate,
+      name: appliesTo(rate),
+      item: describeRateCardItem(rate, products),
+      standard: getStandardPrice(rate, products, today),
+      members: rate.customerId ? 1 : customers.filter(c => c.group === rate.group).length,
+    }))
+    .filter(row =>
+      row.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      row.item.toLowerCase().includes(searchTerm.toLowerCase())
+    )
+    .sort((a, b) =>
+      Number(!!a.rate.customerId) - Number(!!b.rate.customerId) ||
+      a.name.localeCompare(b.name) ||
+      a.item.localeCompare(b.item)
+    );
+
+  const openAddModal = () => {
+    setEditingRate(null);
+    setFormData(emptyForm);
+    setFormError('');
+    setIsModalOpen(true);
+  };
+
+  const handleEdit = (rate: RateCard) => {
+    setEditingRate(rate);
+    setFormData({
+      scope: rate.customerId ? 'customer' : 'group',
+      customerId: rate.customerId ?? '',
+      group: rate.group ?? '',
+      productId: rate.productId,
+      variantId: rate.variantId ?? '',
+      price: rupeesInput(rate.price),
+      note: rate.note ?? '',
+    });
+    setFormError('');
+    setIsModalOpen(true);
+  };
+
+  const handleDelete = (rate: RateCard) => {
+    if (window.confirm(`Remove the special rate for ${appliesTo(rate)}? Future orders will use the list price.`)) {
+      deleteRateCard(rate.id);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const price = parseRupees(formData.price);
+    const group = formData.group.trim();
+
+    if (formData.scope === 'customer' ? !formData.customerId : !group) {
+      setFormError(formData.scope === 'customer' ? 'Please select a customer.' : 'Please enter a group.');
+      return;
+    }
+    if (!formData.productId) {
+      setFormError('Please select a product.');
+      return;
+    }
+    if (price === undefined || price < 0) {
+      setFormError('Please enter a valid price.');
+      return;
+    }
+
+    const rateData = {
+      customerId: formData.scope === 'customer' ? formData.customerId : undefined,
+      group: formData.scope === 'group' ? group : undefined,
+      productId: formData.productId,
+      variantId: formData.variantId || undefined,
+      price,
+      note: formData.note.trim() || undefined,
+    };
+
+    if (editingRate) {
+      updateRateCard(editingRate.id, rateData);
+    } else {
+      addRateCard(rateData);
+    }
+
+    setFormData(emptyForm);
+    setFormError('');
+    setIsModalOpen(false);
+    setEditingRate(null);
+  };
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Rate Exceptions</h1>
+          <p className="text-gray-600">Customers and groups billed at a special price</p>
+        </div>
+        <button
+          onClick={openAddModal}
+          disabled={products.length === 0}
+          className="inline-flex items-center gap-2 bg-primary-600 text-white px-4 py-2 rounded-xl font-medium hover:bg-primary-700 disabled:opacity-50 transition-colors duration-200"
+        >
+          <Plus className="w-5 h-5" />
+          Add Special Rate
+        </button>
+      </div>
+
+      {/* Search */}
+      <div className="mb-6">
+        <div className="relative max-w-md">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+          <input
+            type="text"
+            placeholder="Search by customer, group or product..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+          />
+        </div>
+      </div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white rounded-2xl shadow-soft overflow-hidden"
+      >
+        {rows.length === 0 ? (
+          <div className="text-center py-12">
+            <Tag className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No special rates</h3>
+            <p className="text-gray-500">
+              {searchTerm ? 'Try adjusting your search terms' : 'Every customer is billed at the list price'}
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applies To</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Item</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Special Rate</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">List Price</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Difference</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Note</th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {rows.map(({ rate, name, item, standard, members }) => {
+                  const difference = standard !== undefined ? rate.price - standard : undefined;
+                  return (
+                    <tr key={rate.id} className="hover:bg-gray-50 transition-colors duration-200">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        <span className="inline-flex items-center gap-2">
+                          {rate.customerId ? <User className="w-4 h-4 text-gray-400" /> : <Users className="w-4 h-4 text-purple-500" />}
+                          {name}
+                          {!rate.customerId && (
+                            <span className="text-xs text-gray-500">({members} customer{members === 1 ? '' : 's'})</span>
+                          )}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800">{item}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900 text-right">{formatMoney(rate.price)}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 text-right">
+                        {standard !== undefined ? formatMoney(standard) : '-'}
+                      </td>
+                      <td className={`px-6 py-4 whitespace-nowrap text-sm text-right ${
+                        difference === undefined || difference === 0 ? 'text-gray-500' : difference < 0 ? 'text-red-600' : 'text-green-600'
+                      }`}>
+                        {difference === undefined ? '-' : `${difference > 0 ? '+' : ''}${formatMoney(difference)}`}
+                        {difference !== undefined && standard ? ` (${((difference / standard) * 100).toFixed(1)}%)` : ''}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">{rate.note || '-'}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right">
+                        <div className="flex items-center justify-end gap-2">
+                          <button
+                            onClick={() => handleEdit(rate)}
+                            className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors duration-200"
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(rate)}
+                            className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors duration-200"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </motion.div>
+
+      {/* Modal */}
+      <AnimatePresence>
+        {isModalOpen && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+            onClick={() => setIsModalOpen(false)}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.9 }}
+              className="bg-white rounded-2xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <h2 className="text-2xl font-bold text-gray-900 mb-6">
+                {editingRate ? 'Edit Special Rate' : 'Add Special Rate'}
+              </h2>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-2">
+                  {(['customer', 'group'] as RateScope[]).map(scope => (
+                    <button
+                      key={scope}
+                      type="button"
+                      onClick={() => {
+                        setFormData({ ...formData, scope });
+                        setFormError('');
+                      }}
+                      className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors duration-200 ${
+                        formData.scope === scope ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                      }`}
+                    >
+                      {scope === 'customer' ? 'One Customer' : 'Customer Group'}
+                    </button>
+                  ))}
+                </div>
+                {formData.scope === 'customer' ? (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Customer
+                    </label>
+                    <select
+                      value={formData.customerId}
+                      onChange={(e) => setFormData({ ...formData, customerId: e.target.value })}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                    >
+                      <option value="">Select a customer</option>
+                      {customers.map(customer => (
+                        <option key={customer.id} value={customer.id}>{customer.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Group
+                    </label>
+                    <input
+                      type="text"
+                      list="rate-groups"
+                      value={formData.group}
+                      onChange={(e) => setFormData({ ...formData, group: e.target.value })}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                      placeholder="e.g. Hotel"
+                    />
+                    <datalist id="rate-groups">
+                      {groups.map(group => <option key={group} value={group} />)}
+                    </datalist>
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Product
+                    </label>
+                    <select
+                      value={formData.productId}
+                      onChange={(e) => setFormData({ ...formData, productId: e.target.value, variantId: '' })}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                    >
+                      <option value="">Select a product</option>
+                      {products.map(product => (
+                        <option key={product.id} value={product.id}>{product.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Pack
+                    </label>
+                    <select
+                      value={formData.variantId}
+                      onChange={(e) => setFormData({ ...formData, variantId: e.target.value })}
+                      disabled={!selectedProduct?.variants?.length}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none disabled:bg-gray-50"
+                    >
+                      <option value="">Loose</option>
+                      {selectedProduct?.variants?.map(variant => (
+                        <option key={variant.id} value={variant.id}>{variant.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Special Price (₹)
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={formData.price}
+                    onChange={(e) => {
+                      setFormData({ ...formData, price: e.target.value });
+                      setFormError('');
+                    }}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                    placeholder="Enter price"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Note (optional)
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.note}
+                    onChange={(e) => setFormData({ ...formData, note: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                    placeholder="e.g. Bulk buyer, agreed Jan 2026"
+                  />
+                </div>
+                {formError && <p className="text-red-500 text-sm">{formError}</p>}
+                <div className="flex gap-3 pt-4">
+                  <button
+                    type="button"
+                    onClick={() => setIsModalOpen(false)}
+                    className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-xl font-medium hover:bg-gray-50 transition-colors duration-200"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="flex-1 px-4 py-3 bg-primary-600 text-white rounded-xl font-medium hover:bg-primary-700 transition-colors duration-200"
+                  >
+                    {editingRate ? 'Update' : 'Add'} Rate
+                  </button>
+                </div>
+              </form>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { motion } from 'framer-motion';
+import { Calculator, IndianRupee } from 'lucide-react';
+import { useSettings } from '../contexts/SettingsContext';
+import { BusinessProfileForm } from '../components/Settings/BusinessProfileForm';
+import { DigitGrouping, MoneyFormat, RoundingMode } from '../types';
+import { formatMoney, roundToRupee } from '../utils/money';
+
+const ROUNDING_OPTIONS: { value: RoundingMode; label: string; description: string }[] = [
+  { value: 'none', label: 'No rounding', description: 'Bill the exact amount in paise' },
+  { value: 'nearest', label: 'Nearest rupee', description: '50 paise and above round up' },
+  { value: 'up', label: 'Always up', description: 'Any paise round up to the next rupee' },
+  { value: 'down', label: 'Always down', description: 'Paise are dropped' },
+];
+
+const GROUPING_OPTIONS: { value: DigitGrouping; label: string; description: string }[] = [
+  { value: 'indian', label: 'Indian', description: 'Lakh and crore, e.g. 1,25,000' },
+  { value: 'international', label: 'International', description: 'Thousands, e.g. 125,000' },
+  { value: 'none', label: 'No grouping', description: 'Plain digits, e.g. 125000' },
+];
+
+const SAMPLE_TOTAL = 24750;
+const SAMPLE_AMOUNT = 12500050;
+
+export function Settings() {
+  const { settings, updateSettings } = useSettings();
+
+  const updateMoneyFormat = (format: Partial<MoneyFormat>) => {
+    updateSettings({ money: { ...settings.money, ...format } });
+  };
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold text-gray-900">Settings</h1>
+        <p className="text-gray-600">Your business details, and how the app bills and displays amounts</p>
+      </div>
+
+      <BusinessProfileForm />
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="bg-white rounded-2xl shadow-soft p-6 max-w-2xl"
+      >
+        <div className="flex items-center gap-3 mb-2">
+          <div className="w-10 h-10 bg-primary-100 rounded-xl flex items-center justify-center">
+            <Calculator className="w-5 h-5 text-primary-600" />
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900">Order Total Rounding</h2>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Applied to new and edited orders after discounts and delivery charges. The difference is shown as a round-off on the order.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {ROUNDING_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => updateSettings({ rounding: option.value })}
+              className={`text-left p-4 rounded-xl border-2 transition-colors duration-200 ${
+                settings.rounding === option.value
+                  ? 'border-primary-600 bg-primary-50'
+                  : 'border-gray-200 hover:border-gray-300'
+              }`}
+            >
+              <p className="font-medium text-gray-900">{option.label}</p>
+              <p className="text-sm text-gray-500">{option.description}</p>
+              <p className="text-xs text-gray-400 mt-1">
+                {formatMoney(SAMPLE_TOTAL)} → {formatMoney(roundToRupee(SAMPLE_TOTAL, option.value))}
+              </p>
+            </button>
+          ))}
+        </div>
+      </motion.div>
+
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.1 }}
+        className="bg-white rounded-2xl shadow-soft p-6 max-w-2xl mt-6"
+      >
+        <div className="flex items-center gap-3 mb-2">
+          <div className="w-10 h-10 bg-primary-100 rounded-xl flex items-center justify-center">
+            <IndianRupee className="w-5 h-5 text-primary-600" />
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900">Amount Format</h2>
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Used on every screen, receipt, bill and statement. CSV exports keep plain numbers with paise so spreadsheets can add them up.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          {GROUPING_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => updateMoneyFormat({ grouping: option.value })}
+              className={`text-left p-4 rounded-xl border-2 transition-colors duration-200 ${
+                settings.money.grouping === option.value
+                  ? 'border-primary-600 bg-primary-50'
+                  : 'border-gray-200 hover:border-gray-300'
+              }`}
+            >
+              <p className="font-medium text-gray-900">{option.label}</p>
+              <p className="text-sm text-gray-500">{option.description}</p>
+            </button>
+          ))}
+        </div>
+        <div className="mt-4 space-y-3">
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={settings.money.decimals}
+              onChange={(e) => updateMoneyFormat({ decimals: e.target.checked })}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            Show paise
+          </label>
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={settings.money.symbol}
+              onChange={(e) => updateMoneyFormat({ symbol: e.target.checked })}
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+            />
+            Show the ₹ symbol
+          </label>
+        </div>
+        <div className="mt-4 p-4 bg-gray-50 rounded-xl text-sm text-gray-700">
+          Preview: <span className="font-semibold text-gray-900">{formatMoney(SAMPLE_AMOUNT)}</span>
+          <span className="text-gray-500"> · advance shown as </span>
+          <span className="font-semibold text-gray-900">{formatMoney(-SAMPLE_TOTAL)}</span>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
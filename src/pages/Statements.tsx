@@ -1,22 +1,25 @@
 import React, { useState, useMemo } from 'react';
 import { motion } from 'framer-motion';
-import { FileText, Download, Filter, DollarSign, PiggyBank } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { FileText, Download, Filter, DollarSign, PiggyBank, Receipt, History, Hourglass, FileCheck, BookOpen } from 'lucide-react';
 import { useData } from '../contexts/DataContext';
+import { useSettings } from '../contexts/SettingsContext';
 import { format, startOfMonth, endOfMonth, startOfWeek, endOfWeek, parseISO } from 'date-fns';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
-
-interface Transaction {
-  date: string;
-  type: 'order' | 'payment';
-  description: string;
-  billed: number;
-  paid: number;
-  customerName: string;
-}
+import { addDocumentFooter, addDocumentHeader, getLastTableY } from '../utils/pdf';
+import { downloadBlob } from '../utils/download';
+import { formatBalance, getBalanceBefore } from '../utils/ledger';
+import { buildStatement } from '../utils/statement';
+import { csvBlob } from '../utils/csv';
+import { buildXlsx, XlsxSheet } from '../utils/xlsx';
+import { buildTallyXml } from '../utils/tally';
+import { Statement } from '../types';
+import { exportAmount, formatMoney } from '../utils/money';
 
 export function Statements() {
-  const { customers, getFilteredOrders, getFilteredPayments } = useData();
+  const { customers, products, ledger, getFilteredOrders, getFilteredPayments, getFilteredAdjustments } = useData();
+  const { businessProfile } = useSettings();
   const [filters, setFilters] = useState({
     customer: '',
     dateFrom: format(startOfMonth(new Date()), 'yyyy-MM-dd'),
@@ -24,36 +27,23 @@ export function Statements() {
     period: 'month'
   });
 
-  const transactions = useMemo(() => {
+  const statement = useMemo(() => {
     const filterParams = {
       customer: filters.customer || undefined,
       dateFrom: filters.dateFrom,
       dateTo: filters.dateTo
     };
-    const filteredOrders = getFilteredOrders(filterParams);
-    const filteredPayments = getFilteredPayments(filterParams);
+    const openingBalance = getBalanceBefore(ledger, filters.dateFrom, filters.customer || undefined);
+    return buildStatement(
+      getFilteredOrders(filterParams),
+      getFilteredPayments(filterParams),
+      getFilteredAdjustments(filterParams),
+      openingBalance
+    );
+  }, [filters, ledger, getFilteredOrders, getFilteredPayments, getFilteredAdjustments]);
 
-    const combined: Transaction[] = [
-      ...filteredOrders.map(order => ({
-        date: order.orderDate,
-        type: 'order' as const,
-        description: `Order: ${order.items.map(i => `${i.quantity}x ${i.productName}`).join(', ')}`,
-        billed: order.totalAmount,
-        paid: 0,
-        customerName: order.customerName,
-      })),
-      ...filteredPayments.map(payment => ({
-        date: payment.paymentDate,
-        type: 'payment' as const,
-        description: `Payment received`,
-        billed: 0,
-        paid: payment.amount,
-        customerName: payment.customerName,
-      }))
-    ];
-    
-    return combined.sort((a, b) => parseISO(a.date).getTime() - parseISO(b.date).getTime());
-  }, [filters, getFilteredOrders, getFilteredPayments]);
+  const transactions = statement.lines;
+  const { openingBalance, totalBilled, totalPaid, closingBalance } = statement;
 
   const handlePeriodChange = (period: string) => {
     const today = new Date();
@@ -81,90 +71,169 @@ export function Statements() {
     setFilters({ ...filters, period, dateFrom, dateTo });
   };
 
-  const totalBilled = transactions.reduce((sum, tx) => sum + tx.billed, 0);
-  const totalPaid = transactions.reduce((sum, tx) => sum + tx.paid, 0);
-
   const generatePDF = () => {
     const doc = new jsPDF();
     const includeCustomerName = filters.customer === '';
     
-    doc.setFontSize(20);
-    doc.text('Jay Goga Milk Supplier', 20, 20);
-    doc.setFontSize(14);
-    doc.text('Account Statement', 20, 30);
-    
-    doc.setFontSize(10);
-    doc.text(`Period: ${format(parseISO(filters.dateFrom), 'MMM dd, yyyy')} to ${format(parseISO(filters.dateTo), 'MMM dd, yyyy')}`, 20, 40);
-    
+    const details = [`Period: ${format(parseISO(filters.dateFrom), 'MMM dd, yyyy')} to ${format(parseISO(filters.dateTo), 'MMM dd, yyyy')}`];
     if (filters.customer) {
       const customer = customers.find(c => c.id === filters.customer);
-      doc.text(`Customer: ${customer?.name || 'All Customers'}`, 20, 48);
+      details.push(`Customer: ${customer?.name || 'All Customers'}`);
     }
+    const startY = addDocumentHeader(doc, businessProfile, 'Account Statement', details);
 
-    const head = [['Date', ...(includeCustomerName ? ['Customer'] : []), 'Description', 'Billed', 'Paid']];
-    const tableData = transactions.map(tx => [
-      format(new Date(tx.date), 'dd/MM/yyyy'),
-      ...(includeCustomerName ? [tx.customerName] : []),
-      tx.description,
-      tx.billed > 0 ? `₹${tx.billed.toFixed(2)}` : '-',
-      tx.paid > 0 ? `₹${tx.paid.toFixed(2)}` : '-',
-    ]);
+    const head = [['Date', ...(includeCustomerName ? ['Customer'] : []), 'Description', 'Billed', 'Paid', 'Balance']];
+    const tableData = [
+      [
+        format(parseISO(filters.dateFrom), 'dd/MM/yyyy'),
+        ...(includeCustomerName ? [''] : []),
+        'Opening Balance',
+        '',
+        '',
+        formatBalance(openingBalance),
+      ],
+      ...transactions.map(tx => [
+        format(new Date(tx.date), 'dd/MM/yyyy'),
+        ...(includeCustomerName ? [tx.customerName] : []),
+        tx.description,
+        tx.billed > 0 ? formatMoney(tx.billed) : '-',
+        tx.paid > 0 ? formatMoney(tx.paid) : '-',
+        formatBalance(tx.balance),
+      ]),
+    ];
 
     autoTable(doc, {
       head: head,
       body: tableData,
-      startY: 60,
+      startY,
       styles: { fontSize: 9 },
       headStyles: { fillColor: [14, 165, 233] },
       columnStyles: {
         [includeCustomerName ? 3 : 2]: { halign: 'right' },
         [includeCustomerName ? 4 : 3]: { halign: 'right' },
+        [includeCustomerName ? 5 : 4]: { halign: 'right' },
       }
     });
 
-    const finalY = (doc as any).lastAutoTable.finalY + 15;
+    const finalY = getLastTableY(doc) + 15;
     doc.setFontSize(12);
-    doc.text(`Total Amount: ₹${totalBilled.toFixed(2)}`, 20, finalY);
-    doc.text(`Received Amount: ₹${totalPaid.toFixed(2)}`, 20, finalY + 8);
+    doc.text(`Opening Balance: ${formatBalance(openingBalance)}`, 20, finalY);
+    doc.text(`Total Amount: ${formatMoney(totalBilled)}`, 20, finalY + 8);
+    doc.text(`Received Amount: ${formatMoney(totalPaid)}`, 20, finalY + 16);
     doc.setFontSize(14);
-    doc.text(`Pending Amount: ₹${(totalBilled - totalPaid).toFixed(2)}`, 20, finalY + 20);
+    doc.text(`Closing Balance: ${formatBalance(closingBalance)}`, 20, finalY + 28);
+    addDocumentFooter(doc, businessProfile, finalY + 28);
 
     doc.save(`account-statement-${filters.dateFrom}-to-${filters.dateTo}.pdf`);
   };
 
   const exportToCSV = () => {
     const includeCustomerName = filters.customer === '';
-    const headers = ['Date', ...(includeCustomerName ? ['Customer'] : []), 'Description', 'Billed', 'Paid'];
-    
+    const headers = ['Date', ...(includeCustomerName ? ['Customer'] : []), 'Description', 'Billed', 'Paid', 'Balance'];
+
+    const openingRow = [
+      filters.dateFrom,
+      ...(includeCustomerName ? [''] : []),
+      'Opening Balance',
+      '',
+      '',
+      exportAmount(openingBalance),
+    ];
+
     const csvData = transactions.map(tx => [
       format(new Date(tx.date), 'yyyy-MM-dd'),
       ...(includeCustomerName ? [tx.customerName] : []),
       tx.description,
-      tx.billed.toFixed(2),
-      tx.paid.toFixed(2),
+      exportAmount(tx.billed),
+      exportAmount(tx.paid),
+      exportAmount(tx.balance),
     ]);
 
     const totalRow = [
         '', 
         ...(includeCustomerName ? [''] : []), 
         'Total', 
-        totalBilled.toFixed(2), 
-        totalPaid.toFixed(2)
+        exportAmount(totalBilled), 
+        exportAmount(totalPaid),
+        exportAmount(closingBalance)
     ];
 
-    const csvContent = [headers, ...csvData, [], totalRow]
-      .map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))
-      .join('\n');
+    downloadBlob(
+      csvBlob([headers, openingRow, ...csvData, [], totalRow]),
+      `account-statement-${filters.dateFrom}-to-${filters.dateTo}.csv`
+    );
+  };
 
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', `account-statement-${filters.dateFrom}-to-${filters.dateTo}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const statementSheet = (name: string, sheetStatement: Statement, includeCustomerName: boolean): XlsxSheet => ({
+    name,
+    columns: [
+      { header: 'Date', type: 'date', width: 14 },
+      ...(includeCustomerName ? [{ header: 'Customer', width: 24 }] : []),
+      { header: 'Description', width: 48 },
+      { header: 'Billed', type: 'currency', total: 'sum' },
+      { header: 'Paid', type: 'currency', total: 'sum' },
+      { header: 'Balance', type: 'currency', width: 16, total: 'last' },
+    ],
+    rows: [
+      [parseISO(filters.dateFrom), ...(includeCustomerName ? [''] : []), 'Opening Balance', null, null, sheetStatement.openingBalance],
+      ...sheetStatement.lines.map(tx => [
+        parseISO(tx.date),
+        ...(includeCustomerName ? [tx.customerName] : []),
+        tx.description,
+        tx.billed || null,
+        tx.paid || null,
+        tx.balance,
+      ]),
+    ],
+    totalsLabel: 'Total / Closing Balance',
+  });
+
+  // With all customers selected the workbook opens on the combined statement and
+  // has one further sheet per customer with activity in the period.
+  const exportToExcel = () => {
+    const sheets: XlsxSheet[] = [];
+
+    if (filters.customer) {
+      const customer = customers.find(c => c.id === filters.customer);
+      sheets.push(statementSheet(customer?.name || 'Statement', statement, false));
+    } else {
+      sheets.push(statementSheet('All Customers', statement, true));
+      customers.forEach(customer => {
+        const filterParams = { customer: customer.id, dateFrom: filters.dateFrom, dateTo: filters.dateTo };
+        const customerStatement = buildStatement(
+          getFilteredOrders(filterParams),
+          getFilteredPayments(filterParams),
+          getFilteredAdjustments(filterParams),
+          getBalanceBefore(ledger, filters.dateFrom, customer.id)
+        );
+        if (customerStatement.lines.length > 0 || customerStatement.openingBalance !== 0) {
+          sheets.push(statementSheet(customer.name, customerStatement, false));
+        }
+      });
+    }
+
+    downloadBlob(buildXlsx(sheets), `account-statement-${filters.dateFrom}-to-${filters.dateTo}.xlsx`);
+  };
+
+  const exportToTally = () => {
+    const filterParams = {
+      customer: filters.customer || undefined,
+      dateFrom: filters.dateFrom,
+      dateTo: filters.dateTo
+    };
+    const xml = buildTallyXml({
+      companyName: businessProfile.name,
+      orders: getFilteredOrders(filterParams),
+      payments: getFilteredPayments(filterParams),
+      adjustments: getFilteredAdjustments(filterParams),
+      customers,
+      products,
+      businessGstin: businessProfile.gstin,
+    });
+    downloadBlob(
+      new Blob([xml], { type: 'application/xml' }),
+      `tally-vouchers-${filters.dateFrom}-to-${filters.dateTo}.xml`
+    );
   };
 
   return (
@@ -176,13 +245,48 @@ export function Statements() {
           <p className="text-gray-600">View and download customer account history</p>
         </div>
         <div className="flex gap-3">
+          <Link
+            to="/billing"
+            className="inline-flex items-center gap-2 bg-primary-600 text-white px-4 py-2 rounded-xl font-medium hover:bg-primary-700 transition-colors duration-200"
+          >
+            <Receipt className="w-5 h-5" />
+            Billing Run
+          </Link>
+          <Link
+            to="/aging"
+            className="inline-flex items-center gap-2 bg-yellow-500 text-white px-4 py-2 rounded-xl font-medium hover:bg-yellow-600 transition-colors duration-200"
+          >
+            <Hourglass className="w-5 h-5" />
+            Aging
+          </Link>
+          <Link
+            to="/invoices"
+            className="inline-flex items-center gap-2 bg-purple-600 text-white px-4 py-2 rounded-xl font-medium hover:bg-purple-700 transition-colors duration-200"
+          >
+            <FileCheck className="w-5 h-5" />
+            Invoices
+          </Link>
           <button
-            onClick={exportToCSV}
+            onClick={exportToExcel}
             className="inline-flex items-center gap-2 bg-green-600 text-white px-4 py-2 rounded-xl font-medium hover:bg-green-700 transition-colors duration-200"
           >
             <Download className="w-5 h-5" />
             Excel
           </button>
+          <button
+            onClick={exportToTally}
+            className="inline-flex items-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-xl font-medium hover:bg-indigo-700 transition-colors duration-200"
+          >
+            <BookOpen className="w-5 h-5" />
+            Tally
+          </button>
+          <button
+            onClick={exportToCSV}
+            className="inline-flex items-center gap-2 bg-gray-600 text-white px-4 py-2 rounded-xl font-medium hover:bg-gray-700 transition-colors duration-200"
+          >
+            <Download className="w-5 h-5" />
+            CSV
+          </button>
           <button
             onClick={generatePDF}
             className="inline-flex items-center gap-2 bg-red-600 text-white px-4 py-2 rounded-xl font-medium hover:bg-red-700 transition-colors duration-200"
@@ -269,13 +373,22 @@ export function Statements() {
       </motion.div>
 
       {/* Summary Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-6">
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.05 }} className="bg-white rounded-2xl shadow-soft p-6">
+          <div className="flex items-center gap-3">
+            <History className="w-8 h-8 text-gray-600" />
+            <div>
+              <p className="text-sm text-gray-600">Opening Balance</p>
+              <p className="text-2xl font-bold text-gray-900">{formatBalance(openingBalance)}</p>
+            </div>
+          </div>
+        </motion.div>
         <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.1 }} className="bg-white rounded-2xl shadow-soft p-6">
           <div className="flex items-center gap-3">
             <DollarSign className="w-8 h-8 text-blue-600" />
             <div>
               <p className="text-sm text-gray-600">Total Amount</p>
-              <p className="text-2xl font-bold text-gray-900">₹{totalBilled.toFixed(2)}</p>
+              <p className="text-2xl font-bold text-gray-900">{formatMoney(totalBilled)}</p>
             </div>
           </div>
         </motion.div>
@@ -284,7 +397,7 @@ export function Statements() {
             <PiggyBank className="w-8 h-8 text-green-600" />
             <div>
               <p className="text-sm text-gray-600">Received Amount</p>
-              <p className="text-2xl font-bold text-gray-900">₹{totalPaid.toFixed(2)}</p>
+              <p className="text-2xl font-bold text-gray-900">{formatMoney(totalPaid)}</p>
             </div>
           </div>
         </motion.div>
@@ -292,8 +405,8 @@ export function Statements() {
           <div className="flex items-center gap-3">
             <FileText className="w-8 h-8 text-red-600" />
             <div>
-              <p className="text-sm text-gray-600">Pending Amount</p>
-              <p className="text-2xl font-bold text-gray-900">₹{(totalBilled - totalPaid).toFixed(2)}</p>
+              <p className="text-sm text-gray-600">Closing Balance</p>
+              <p className="text-2xl font-bold text-gray-900">{formatBalance(closingBalance)}</p>
             </div>
           </div>
         </motion.div>
@@ -326,9 +439,22 @@ export function Statements() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
                   <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Billed</th>
                   <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Paid</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
+                <tr className="bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800">
+                    {format(parseISO(filters.dateFrom), 'MMM dd, yyyy')}
+                  </td>
+                  {filters.customer === '' && <td />}
+                  <td className="px-6 py-4 text-sm font-medium text-gray-900">Opening Balance</td>
+                  <td />
+                  <td />
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900 text-right">
+                    {formatBalance(openingBalance)}
+                  </td>
+                </tr>
                 {transactions.map((tx, index) => (
                   <tr key={index} className="hover:bg-gray-50 transition-colors duration-200">
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-800">
@@ -343,14 +469,27 @@ export function Statements() {
                       {tx.description}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-red-600 text-right">
-                      {tx.billed > 0 ? `₹${tx.billed.toFixed(2)}` : '-'}
+                      {tx.billed > 0 ? formatMoney(tx.billed) : '-'}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-green-600 text-right">
-                      {tx.paid > 0 ? `₹${tx.paid.toFixed(2)}` : '-'}
+                      {tx.paid > 0 ? formatMoney(tx.paid) : '-'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900 text-right">
+                      {formatBalance(tx.balance)}
                     </td>
                   </tr>
                 ))}
               </tbody>
+              <tfoot className="bg-gray-50">
+                <tr>
+                  <td className="px-6 py-4 text-sm font-semibold text-gray-900" colSpan={filters.customer === '' ? 3 : 2}>
+                    Closing Balance
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-red-600 text-right">{formatMoney(totalBilled)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-green-600 text-right">{formatMoney(totalPaid)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-bold text-gray-900 text-right">{formatBalance(closingBalance)}</td>
+                </tr>
+              </tfoot>
             </table>
           </div>
         )}
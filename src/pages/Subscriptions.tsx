@@ -0,0 +1,511 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Plus, Edit2, Trash2, Repeat, Calendar, Pause, Play, SkipForward, Undo2 } from 'lucide-react';
+import { useData } from '../contexts/DataContext';
+import { ProductUnit, Subscription, SubscriptionItem } from '../types';
+import { format, parseISO } from 'date-fns';
+import { WEEKDAY_LABELS } from '../utils/subscriptions';
+import { buildOrderItems, describeItem } from '../utils/orders';
+import { DEFAULT_UNIT, formatQuantity, isValidQuantity, quantityStep, UNITS, baseQuantity } from '../utils/units';
+import { PauseCalendar } from '../components/Subscriptions/PauseCalendar';
+import { formatMoney } from '../utils/money';
+
+const ALL_WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+function SubscriptionCard({ subscription, onEdit, onDelete, onToggleActive }: { subscription: Subscription, onEdit: (subscription: Subscription) => void, onDelete: (id: string) => void, onToggleActive: (subscription: Subscription) => void }) {
+  const { products } = useData();
+
+  return (
+    <motion.div
+      layout
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: -20 }}
+      className={`bg-white rounded-2xl shadow-soft p-4 border border-gray-100 ${subscription.active ? '' : 'opacity-60'}`}
+    >
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex-1">
+          <div className="flex items-center gap-3 mb-2">
+            <h3 className="text-lg font-semibold text-gray-900">{subscription.customerName}</h3>
+            <span className={`px-3 py-1 rounded-full text-xs font-medium ${
+              subscription.active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'
+            }`}>
+              {subscription.active ? 'active' : 'paused'}
+            </span>
+          </div>
+          <div className="space-y-1 border-l-2 border-gray-200 pl-3 mb-3">
+            {subscription.items.map((item, index) => (
+              <p key={index} className="text-sm text-gray-700">
+                {products.some(p => p.id === item.productId)
+                  ? describeItem(buildOrderItems([item], products, format(new Date(), 'yyyy-MM-dd'))[0])
+                  : 'Unknown product'}
+              </p>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-1 mb-2">
+            {ALL_WEEKDAYS.map(day => (
+              <span
+                key={day}
+                className={`px-2 py-0.5 rounded-md text-xs font-medium ${
+                  subscription.weekdays.includes(day) ? 'bg-primary-100 text-primary-700' : 'bg-gray-50 text-gray-400'
+                }`}
+              >
+                {WEEKDAY_LABELS[day]}
+              </span>
+            ))}
+          </div>
+          <p className="text-sm text-gray-500 flex items-center gap-1">
+            <Calendar className="w-4 h-4" />
+            From {format(parseISO(subscription.startDate), 'MMM dd, yyyy')}
+            {subscription.endDate ? ` to ${format(parseISO(subscription.endDate), 'MMM dd, yyyy')}` : ' onwards'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onToggleActive(subscription)}
+            className={`p-2 rounded-lg transition-colors duration-200 ${
+              subscription.active ? 'text-yellow-600 hover:bg-yellow-50' : 'text-green-600 hover:bg-green-50'
+            }`}
+            title={subscription.active ? 'Pause Subscription' : 'Resume Subscription'}
+          >
+            {subscription.active ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+          </button>
+          <button
+            onClick={() => onEdit(subscription)}
+            className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors duration-200"
+          >
+            <Edit2 className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => onDelete(subscription.id)}
+            className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors duration-200"
+          >
+            <Trash2 className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
+
+function DailyPreview() {
+  const { getSubscriptionPreview, generateSubscriptionOrders, setSubscriptionSkipped } = useData();
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+  const preview = getSubscriptionPreview(date);
+  const pendingCount = preview.filter(p => p.status === 'pending').length;
+
+  const requirement = preview
+    .filter(p => p.status === 'pending' || p.status === 'created')
+    .reduce((acc, p) => {
+      p.order.items.forEach(item => {
+        const current = acc[item.productName];
+        acc[item.productName] = {
+          quantity: (current?.quantity || 0) + baseQuantity(item),
+          unit: item.unit ?? DEFAULT_UNIT,
+        };
+      });
+      return acc;
+    }, {} as Record<string, { quantity: number; unit: ProductUnit }>);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="bg-white rounded-2xl shadow-soft p-6 mb-6"
+    >
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Orders for the Day</h3>
+        <div className="flex items-center gap-3">
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+          />
+          <button
+            onClick={() => generateSubscriptionOrders(date)}
+            disabled={pendingCount === 0}
+            className="inline-flex items-center gap-2 bg-primary-600 text-white px-4 py-2 rounded-xl text-sm font-medium hover:bg-primary-700 transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Repeat className="w-4 h-4" />
+            Create {pendingCount} Order{pendingCount === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+
+      {preview.length === 0 ? (
+        <p className="text-gray-500 text-center py-6">No subscriptions are due on this day</p>
+      ) : (
+        <>
+          <div className="divide-y divide-gray-100">
+            {preview.map(({ subscription, order, status }) => (
+              <div key={subscription.id} className="flex items-center justify-between py-3 gap-4">
+                <div>
+                  <p className="font-medium text-gray-900">{subscription.customerName}</p>
+                  <p className="text-sm text-gray-600">
+                    {order.items.map(describeItem).join(', ')} - {formatMoney(order.totalAmount)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className={`px-3 py-1 rounded-full text-xs font-medium ${
+                    status === 'created'
+                      ? 'bg-green-100 text-green-800'
+                      : status === 'pending' ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-700'
+                  }`}>
+                    {status === 'pending' ? 'to create' : status}
+                  </span>
+                  {status === 'pending' && (
+                    <button
+                      onClick={() => setSubscriptionSkipped(subscription.id, date, true)}
+                      className="p-2 text-gray-400 hover:text-yellow-600 hover:bg-yellow-50 rounded-lg transition-colors duration-200"
+                      title="Skip this day"
+                    >
+                      <SkipForward className="w-4 h-4" />
+                    </button>
+                  )}
+                  {status === 'skipped' && (
+                    <button
+                      onClick={() => setSubscriptionSkipped(subscription.id, date, false)}
+                      className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-50 rounded-lg transition-colors duration-200"
+                      title="Undo skip"
+                    >
+                      <Undo2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+          {Object.keys(requirement).length > 0 && (
+            <div className="mt-4 pt-4 border-t border-gray-200 flex flex-wrap gap-3">
+              <span className="text-sm font-medium text-gray-700">Requirement:</span>
+              {Object.entries(requirement).map(([name, { quantity, unit }]) => (
+                <span key={name} className="text-sm text-blue-700 bg-blue-50 px-2 py-0.5 rounded-md">
+                  {formatQuantity(quantity, unit)} {name}
+                </span>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </motion.div>
+  );
+}
+
+export function Subscriptions() {
+  const { subscriptions, customers, products, addSubscription, updateSubscription, deleteSubscription } = useData();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingSubscription, setEditingSubscription] = useState<Subscription | null>(null);
+  const [formData, setFormData] = useState({
+    customerId: '',
+    items: [] as SubscriptionItem[],
+    weekdays: ALL_WEEKDAYS,
+    startDate: format(new Date(), 'yyyy-MM-dd'),
+    endDate: '',
+  });
+  const [formError, setFormError] = useState('');
+
+  const resetForm = () => {
+    setFormData({
+      customerId: '',
+      items: [],
+      weekdays: ALL_WEEKDAYS,
+      startDate: format(new Date(), 'yyyy-MM-dd'),
+      endDate: '',
+    });
+    setFormError('');
+    setIsModalOpen(false);
+    setEditingSubscription(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.customerId || formData.items.length === 0 || formData.weekdays.length === 0) return;
+
+    const invalid = formData.items.find(item => item.variantId
+      ? !isValidQuantity(item.quantity, 'piece')
+      : !isValidQuantity(item.quantity, products.find(p => p.id === item.productId)?.unit));
+    if (invalid) {
+      setFormError(`Please enter a valid quantity for ${products.find(p => p.id === invalid.productId)?.name || 'each item'}.`);
+      return;
+    }
+
+    const subscriptionData = {
+      customerId: formData.customerId,
+      items: formData.items,
+      weekdays: [...formData.weekdays].sort((a, b) => a - b),
+      startDate: formData.startDate,
+      endDate: formData.endDate || undefined,
+    };
+
+    if (editingSubscription) {
+      updateSubscription(editingSubscription.id, subscriptionData);
+    } else {
+      addSubscription({ ...subscriptionData, active: true });
+    }
+
+    resetForm();
+  };
+
+  const handleEdit = (subscription: Subscription) => {
+    setEditingSubscription(subscription);
+    setFormData({
+      customerId: subscription.customerId,
+      items: subscription.items,
+      weekdays: subscription.weekdays,
+      startDate: subscription.startDate,
+      endDate: subscription.endDate || '',
+    });
+    setIsModalOpen(true);
+  };
+
+  const handleDelete = (id: string) => {
+    if (window.confirm('Are you sure you want to delete this subscription? Orders already created are kept.')) {
+      deleteSubscription(id);
+    }
+  };
+
+  const toggleWeekday = (day: number) => {
+    setFormData({
+      ...formData,
+      weekdays: formData.weekdays.includes(day)
+        ? formData.weekdays.filter(d => d !== day)
+        : [...formData.weekdays, day],
+    });
+  };
+
+  const updateItem = (index: number, field: keyof SubscriptionItem, value: string | number | undefined) => {
+    const updatedItems = [...formData.items];
+    updatedItems[index] = {
+      ...updatedItems[index],
+      [field]: value,
+      ...(field === 'productId' ? { variantId: undefined } : {}),
+    };
+    setFormData({ ...formData, items: updatedItems });
+    setFormError('');
+  };
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Subscriptions</h1>
+          <p className="text-gray-600">Standing orders that are created automatically every day</p>
+        </div>
+        <button
+          onClick={() => setIsModalOpen(true)}
+          className="inline-flex items-center gap-2 bg-primary-600 text-white px-4 py-2 rounded-xl font-medium hover:bg-primary-700 transition-colors duration-200"
+        >
+          <Plus className="w-5 h-5" />
+          Add Subscription
+        </button>
+      </div>
+
+      <DailyPreview />
+      <PauseCalendar />
+
+      {/* Subscriptions List */}
+      <div className="space-y-4">
+        <AnimatePresence>
+          {subscriptions.map(subscription => (
+            <SubscriptionCard
+              key={subscription.id}
+              subscription={subscription}
+              onEdit={handleEdit}
+              onDelete={handleDelete}
+              onToggleActive={(s) => updateSubscription(s.id, { active: !s.active })}
+            />
+          ))}
+        </AnimatePresence>
+
+        {subscriptions.length === 0 && (
+          <div className="text-center py-12">
+            <Repeat className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No subscriptions yet</h3>
+            <p className="text-gray-500 mb-4">Set up a daily delivery once instead of entering every order by hand</p>
+          </div>
+        )}
+      </div>
+
+      {/* Modal */}
+      <AnimatePresence>
+        {isModalOpen && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50"
+            onClick={resetForm}
+          >
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              exit={{ opacity: 0, scale: 0.9 }}
+              className="bg-white rounded-2xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <h2 className="text-2xl font-bold text-gray-900 mb-6">
+                {editingSubscription ? 'Edit Subscription' : 'Add New Subscription'}
+              </h2>
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Customer
+                  </label>
+                  <select
+                    value={formData.customerId}
+                    onChange={(e) => setFormData({ ...formData, customerId: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                    required
+                  >
+                    <option value="">Select Customer</option>
+                    {customers.map(customer => (
+                      <option key={customer.id} value={customer.id}>{customer.name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Start Date
+                    </label>
+                    <input
+                      type="date"
+                      value={formData.startDate}
+                      onChange={(e) => setFormData({ ...formData, startDate: e.target.value })}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                      required
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      End Date (optional)
+                    </label>
+                    <input
+                      type="date"
+                      value={formData.endDate}
+                      min={formData.startDate}
+                      onChange={(e) => setFormData({ ...formData, endDate: e.target.value })}
+                      className="w-full px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Delivery Days
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    {ALL_WEEKDAYS.map(day => (
+                      <button
+                        key={day}
+                        type="button"
+                        onClick={() => toggleWeekday(day)}
+                        className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors duration-200 ${
+                          formData.weekdays.includes(day)
+                            ? 'bg-primary-600 text-white'
+                            : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                        }`}
+                      >
+                        {WEEKDAY_LABELS[day]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <div className="flex items-center justify-between mb-4">
+                    <label className="block text-sm font-medium text-gray-700">
+                      Daily Items
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => setFormData({ ...formData, items: [...formData.items, { productId: '', quantity: 1 }] })}
+                      className="text-primary-600 hover:text-primary-700 text-sm font-medium"
+                    >
+                      + Add Item
+                    </button>
+                  </div>
+                  <div className="space-y-3">
+                    {formData.items.map((item, index) => {
+                      const product = products.find(p => p.id === item.productId);
+                      const unit = item.variantId ? 'packet' : product?.unit;
+                      return (
+                        <div key={index} className="flex gap-3 items-center">
+                          <select
+                            value={item.productId}
+                            onChange={(e) => updateItem(index, 'productId', e.target.value)}
+                            className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                            required
+                          >
+                            <option value="">Select Product</option>
+                            {products.map(p => (
+                              <option key={p.id} value={p.id}>{p.name}</option>
+                            ))}
+                          </select>
+                          {product?.variants && product.variants.length > 0 && (
+                            <select
+                              value={item.variantId ?? ''}
+                              onChange={(e) => updateItem(index, 'variantId', e.target.value || undefined)}
+                              className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                            >
+                              <option value="">Loose</option>
+                              {product.variants.map(variant => (
+                                <option key={variant.id} value={variant.id}>{variant.name}</option>
+                              ))}
+                            </select>
+                          )}
+                          <input
+                            type="number"
+                            min="0"
+                            step={quantityStep(unit)}
+                            value={item.quantity}
+                            onChange={(e) => updateItem(index, 'quantity', parseFloat(e.target.value) || 0)}
+                            className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent outline-none"
+                            placeholder="Qty"
+                            required
+                          />
+                          <span className="w-8 text-sm text-gray-500">{UNITS[unit ?? DEFAULT_UNIT].short}</span>
+                          <button
+                            type="button"
+                            onClick={() => setFormData({ ...formData, items: formData.items.filter((_, i) => i !== index) })}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      );
+                    })}
+                    {formData.items.length === 0 && (
+                      <p className="text-gray-500 text-sm">No items added yet</p>
+                    )}
+                  </div>
+                  {formError && <p className="text-red-500 text-sm mt-2">{formError}</p>}
+                </div>
+
+                <div className="flex gap-3 pt-4">
+                  <button
+                    type="button"
+                    onClick={resetForm}
+                    className="flex-1 px-4 py-3 border border-gray-300 text-gray-700 rounded-xl font-medium hover:bg-gray-50 transition-colors duration-200"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="flex-1 px-4 py-3 bg-primary-600 text-white rounded-xl font-medium hover:bg-primary-700 transition-colors duration-200"
+                  >
+                    {editingSubscription ? 'Update' : 'Create'} Subscription
+                  </button>
+                </div>
+              </form>
+            </motion.div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -1,3 +1,5 @@
+// Every price, charge and amount below is in whole paise (₹1 = 100); see utils/money.
+
 export interface User {
   id: string;
   email: string;
@@ -5,10 +7,38 @@ export interface User {
   createdAt: string;
 }
 
+export type ProductUnit = 'litre' | 'kg' | 'piece' | 'packet';
+
+// A pack of the product sold at its own price, e.g. a 500 ml pouch of milk.
+export interface ProductVariant {
+  id: string;
+  name: string;
+  // How much of the product's unit one pack holds.
+  size: number;
+  price: number;
+}
+
+// Prices that apply from `effectiveFrom` (a 'yyyy-MM-dd' day) until the next version.
+export interface PriceVersion {
+  effectiveFrom: string;
+  price: number;
+  // Pack prices by variant id.
+  variantPrices?: Record<string, number>;
+}
+
+export type PriceChangeType = 'amount' | 'percent';
+
 export interface Product {
   id: string;
   name: string;
+  // Price of one unit when sold loose, as of today; see priceHistory for other days.
   price: number;
+  unit: ProductUnit;
+  variants?: ProductVariant[];
+  priceHistory?: PriceVersion[];
+  hsnCode?: string;
+  // GST percentage included in the price, e.g. 5.
+  taxRate?: number;
   createdAt: string;
 }
 
@@ -17,41 +47,397 @@ export interface Customer {
   name: string;
   phone: string;
   address: string;
+  // Customers sharing a group, e.g. 'Hotel' or 'Tea stall', share its rate cards.
+  group?: string;
+  // Added to every order delivered to this customer.
+  deliveryCharge?: number;
+  // Registered customers get B2B tax invoices; the state code comes from it.
+  gstin?: string;
+  createdAt: string;
+}
+
+// A special price for one customer, or for every customer in a group. Applies
+// to the loose product, or to one pack when `variantId` is set.
+export interface RateCard {
+  id: string;
+  customerId?: string;
+  group?: string;
+  productId: string;
+  variantId?: string;
+  price: number;
+  note?: string;
+  createdAt: string;
+}
+
+export interface CustomerBalance {
+  customerId: string;
   totalOrders: number;
   totalAmount: number;
   paidAmount: number;
+  // Credit notes less manual debits.
+  adjustedAmount: number;
   pendingBalance: number;
-  createdAt: string;
 }
 
+export type DiscountType = 'flat' | 'percent';
+
+export interface Discount {
+  type: DiscountType;
+  // Paise for a flat discount, a percentage otherwise.
+  value: number;
+}
+
+export type ReturnReason = 'spoiled' | 'damaged' | 'rejected' | 'excess' | 'other';
+
 export interface OrderItem {
   productId: string;
   productName: string;
+  // Loose quantity in `unit`, or the number of packs when a variant is sold.
   quantity: number;
+  // Set once the delivery is recorded, in the same terms as `quantity`. Lines
+  // are billed on what was delivered less what came back.
+  deliveredQuantity?: number;
+  returnedQuantity?: number;
+  returnReason?: ReturnReason;
   price: number;
+  unit?: ProductUnit;
+  variantId?: string;
+  variantName?: string;
+  packSize?: number;
+  discount?: Discount;
+  // Copied from the product when the order is made, like the price.
+  hsnCode?: string;
+  taxRate?: number;
+}
+
+// How an order's total is made up. Line discounts are already taken off the
+// subtotal; `discountAmount` is the order-level discount.
+export interface OrderTotals {
+  subtotal: number;
+  discountAmount: number;
+  deliveryCharge: number;
+  roundOff: number;
+  totalAmount: number;
 }
 
+export type OrderStatus = 'pending' | 'partially_delivered' | 'delivered';
+
 export interface Order {
   id:string;
   customerId: string;
   customerName: string;
   items: OrderItem[];
+  // Orders saved before discounts and charges existed only have totalAmount.
+  subtotal?: number;
+  discount?: Discount;
+  discountAmount?: number;
+  deliveryCharge?: number;
+  roundOff?: number;
   totalAmount: number;
-  status: 'pending' | 'delivered';
+  status: OrderStatus;
   orderDate: string;
   deliveryDate?: string;
+  subscriptionId?: string;
+  // Set once the order is on a tax invoice.
+  invoiceId?: string;
   createdAt: string;
 }
 
+export interface SubscriptionItem {
+  productId: string;
+  quantity: number;
+  variantId?: string;
+}
+
+export interface Subscription {
+  id: string;
+  customerId: string;
+  customerName: string;
+  items: SubscriptionItem[];
+  weekdays: number[];
+  startDate: string;
+  endDate?: string;
+  skippedDates: string[];
+  active: boolean;
+  createdAt: string;
+}
+
+export interface PausePeriod {
+  id: string;
+  customerId: string;
+  customerName: string;
+  productId?: string;
+  startDate: string;
+  endDate: string;
+  note?: string;
+  createdAt: string;
+}
+
+export interface SubscriptionPreview {
+  subscription: Subscription;
+  order: Omit<Order, 'id' | 'createdAt'>;
+  status: 'pending' | 'created' | 'skipped' | 'paused';
+}
+
+export type PaymentMethod = 'cash' | 'upi' | 'cheque' | 'bank_transfer';
+
+export type ChequeStatus = 'pending' | 'cleared' | 'bounced';
+
 export interface Payment {
   id: string;
   customerId: string;
   customerName: string;
   amount: number;
   paymentDate: string;
+  method: PaymentMethod;
+  reference?: string;
+  chequeStatus?: ChequeStatus;
+  note?: string;
+  // Set on the negative entry that undoes a bounced cheque.
+  reversalOf?: string;
+  // Orders the customer asked this payment to settle; the rest is applied oldest first.
+  allocations?: PaymentAllocation[];
+  createdAt: string;
+}
+
+export type AdjustmentReason = 'spoiled' | 'short_delivery' | 'returned' | 'rate_correction' | 'goodwill' | 'other';
+
+// A credit note, or with a negative amount a manual debit, e.g. a charge that
+// was missed. Credits settle the linked order first, then the oldest unpaid.
+export interface Adjustment {
+  id: string;
+  customerId: string;
+  customerName: string;
+  amount: number;
+  adjustmentDate: string;
+  reason: AdjustmentReason;
+  orderId?: string;
+  note?: string;
   createdAt: string;
 }
 
+export interface PaymentAllocation {
+  orderId: string;
+  amount: number;
+}
+
+export type OrderPaymentStatus = 'paid' | 'partial' | 'unpaid';
+
+export interface OrderPaymentInfo {
+  orderId: string;
+  paidAmount: number;
+  dueAmount: number;
+  status: OrderPaymentStatus;
+}
+
+export interface PaymentAllocationResult {
+  orders: Map<string, OrderPaymentInfo>;
+  payments: Map<string, PaymentAllocation[]>;
+}
+
+export type AgingBucket = '0-30' | '31-60' | '61-90' | '90+';
+
+export interface AgingOrder {
+  order: Order;
+  dueAmount: number;
+  ageDays: number;
+}
+
+export interface AgingRow {
+  customerId: string;
+  customerName: string;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+  oldestDueDate: string;
+  unpaidOrders: AgingOrder[];
+}
+
+export interface LedgerEntry {
+  id: string;
+  customerId: string;
+  type: 'order' | 'payment' | 'adjustment';
+  date: string;
+  debit: number;
+  credit: number;
+}
+
+export interface StatementLine {
+  date: string;
+  type: 'order' | 'payment' | 'adjustment';
+  description: string;
+  billed: number;
+  paid: number;
+  balance: number;
+  customerName: string;
+}
+
+export interface Statement {
+  openingBalance: number;
+  lines: StatementLine[];
+  totalBilled: number;
+  totalPaid: number;
+  closingBalance: number;
+}
+
+export interface BillLine {
+  date: string;
+  description: string;
+  billed: number;
+  paid: number;
+}
+
+export interface Bill {
+  billNumber: string;
+  customerId: string;
+  customerName: string;
+  customerPhone: string;
+  customerAddress: string;
+  openingBalance: number;
+  totalBilled: number;
+  totalPaid: number;
+  closingBalance: number;
+  lines: BillLine[];
+}
+
+export interface BillingRun {
+  id: string;
+  runNumber: number;
+  periodFrom: string;
+  periodTo: string;
+  bills: Bill[];
+  // The profile the bills were issued under, less its logo, so reprints match
+  // the originals. Runs saved before it was kept print with the current one.
+  business?: BusinessProfile;
+  createdAt: string;
+}
+
+// GST taken out of a tax-inclusive amount. Within a state it is split equally
+// into CGST and SGST; across states it is all IGST.
+export interface ItemTax {
+  taxableValue: number;
+  taxRate: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+}
+
+export interface InvoiceLine extends ItemTax {
+  description: string;
+  hsnCode?: string;
+  quantity: string;
+  // The quantity in the product's unit, for the HSN summary. Missing on
+  // invoices issued before GSTR-1 export.
+  unit?: ProductUnit;
+  baseQuantity?: number;
+  // What the customer pays for the line, tax included.
+  amount: number;
+}
+
+// Like bills, invoices are snapshots. Numbers run without gaps within each
+// financial year, so an invoice is cancelled rather than deleted.
+export interface Invoice {
+  id: string;
+  invoiceNumber: string;
+  financialYear: string;
+  sequence: number;
+  invoiceDate: string;
+  customerId: string;
+  customerName: string;
+  customerPhone: string;
+  customerAddress: string;
+  customerGstin?: string;
+  // Two-digit GST state code of the place of supply.
+  placeOfSupply?: string;
+  interState: boolean;
+  orderIds: string[];
+  periodFrom?: string;
+  periodTo?: string;
+  lines: InvoiceLine[];
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  // Delivery charges, billed without tax.
+  otherCharges: number;
+  roundOff: number;
+  totalAmount: number;
+  cancelled?: boolean;
+  createdAt: string;
+}
+
+// GSTR-1 rows. B2B has one row per invoice and tax rate.
+export interface Gstr1B2bRow extends ItemTax {
+  customerGstin: string;
+  customerName: string;
+  invoiceNumber: string;
+  invoiceDate: string;
+  invoiceValue: number;
+  placeOfSupply: string;
+}
+
+// Sales to unregistered customers, added up by place of supply and rate.
+export interface Gstr1B2csRow extends ItemTax {
+  placeOfSupply: string;
+  interState: boolean;
+}
+
+// Nil-rated and exempt sales, which GSTR-1 reports as totals only.
+export interface Gstr1NilRow {
+  // GSTN codes: INTR is inter-state, INTRA within the state.
+  supplyType: 'INTRB2B' | 'INTRAB2B' | 'INTRB2C' | 'INTRAB2C';
+  nilValue: number;
+}
+
+export interface Gstr1HsnRow extends ItemTax {
+  hsnCode: string;
+  description: string;
+  unit: ProductUnit;
+  quantity: number;
+  totalValue: number;
+}
+
+export interface Gstr1Report {
+  b2b: Gstr1B2bRow[];
+  b2cs: Gstr1B2csRow[];
+  nil: Gstr1NilRow[];
+  hsn: Gstr1HsnRow[];
+  // Problems to fix before filing, e.g. an invalid customer GSTIN.
+  issues: string[];
+}
+
+export type RoundingMode = 'none' | 'nearest' | 'up' | 'down';
+
+// 'indian' groups by lakh and crore (1,25,000), 'international' by thousands (125,000).
+export type DigitGrouping = 'indian' | 'international' | 'none';
+
+export interface MoneyFormat {
+  grouping: DigitGrouping;
+  // Show paise, or round amounts to whole rupees for display.
+  decimals: boolean;
+  symbol: boolean;
+}
+
+// The dairy's own details, printed on every document. Saved per account.
+export interface BusinessProfile {
+  name: string;
+  address?: string;
+  phone?: string;
+  gstin?: string;
+  // A PNG or JPEG data URL.
+  logo?: string;
+  // Account name, number, IFSC and so on, one per line.
+  bankDetails?: string;
+  upiId?: string;
+  footerTerms?: string;
+}
+
+export interface AppSettings {
+  // How order totals are rounded to whole rupees.
+  rounding: RoundingMode;
+  // How amounts are written on screen, in PDFs and in CSVs.
+  money: MoneyFormat;
+}
+
 export interface DashboardStats {
   dailySelling: number;
   dailyCollection: number;
@@ -59,6 +445,18 @@ export interface DashboardStats {
   totalOrders: number;
   pendingOrders: number;
   deliveredOrders: number;
+  collectionByMethod: Record<PaymentMethod, number>;
+}
+
+// A day's short deliveries and returns of one product, in its own unit.
+export interface ProductReturns {
+  productName: string;
+  unit: ProductUnit;
+  shortQuantity: number;
+  returnedQuantity: number;
+  // The value not billed because of them, before discounts.
+  value: number;
+  reasons: ReturnReason[];
 }
 
 export interface FilterOptions {
@@ -67,4 +465,5 @@ export interface FilterOptions {
   customer?: string;
   product?: string;
   status?: string;
+  method?: PaymentMethod;
 }
@@ -0,0 +1,21 @@
+import { Adjustment, AdjustmentReason } from '../types';
+
+export const ADJUSTMENT_REASONS: AdjustmentReason[] = ['spoiled', 'short_delivery', 'returned', 'rate_correction', 'goodwill', 'other'];
+
+export const ADJUSTMENT_REASON_LABELS: Record<AdjustmentReason, string> = {
+  spoiled: 'Spoiled milk',
+  short_delivery: 'Short delivery',
+  returned: 'Goods returned',
+  rate_correction: 'Rate correction',
+  goodwill: 'Goodwill',
+  other: 'Other',
+};
+
+export function isCreditNote(adjustment: Adjustment): boolean {
+  return adjustment.amount > 0;
+}
+
+export function describeAdjustment(adjustment: Adjustment): string {
+  const kind = isCreditNote(adjustment) ? 'Credit note' : 'Debit adjustment';
+  return `${kind} (${ADJUSTMENT_REASON_LABELS[adjustment.reason]})${adjustment.note ? ` - ${adjustment.note}` : ''}`;
+}
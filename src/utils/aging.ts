@@ -0,0 +1,59 @@
+import { AgingBucket, AgingOrder, AgingRow, Customer, Order, OrderPaymentInfo } from '../types';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+
+export const AGING_BUCKETS: { key: AgingBucket; label: string; maxDays: number }[] = [
+  { key: '0-30', label: '0–30 days', maxDays: 30 },
+  { key: '31-60', label: '31–60 days', maxDays: 60 },
+  { key: '61-90', label: '61–90 days', maxDays: 90 },
+  { key: '90+', label: '90+ days', maxDays: Infinity },
+];
+
+export function getAgingBucket(ageDays: number): AgingBucket {
+  return (AGING_BUCKETS.find(bucket => ageDays <= bucket.maxDays) ?? AGING_BUCKETS[AGING_BUCKETS.length - 1]).key;
+}
+
+export function emptyBuckets(): Record<AgingBucket, number> {
+  return { '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 };
+}
+
+// Ages what is still owed on each order as of `asOf`. Payments are already
+// allocated oldest first, so the unpaid part always sits on the newest orders
+// unless the customer chose otherwise. Orders placed after `asOf` are ignored.
+export function buildAgingReport(
+  customers: Customer[],
+  orders: Order[],
+  getOrderPaymentInfo: (order: Order) => OrderPaymentInfo,
+  asOf: string
+): AgingRow[] {
+  const asOfDate = parseISO(asOf);
+  const rows: AgingRow[] = [];
+
+  customers.forEach(customer => {
+    const unpaidOrders: AgingOrder[] = orders
+      .filter(order => order.customerId === customer.id && order.orderDate.slice(0, 10) <= asOf)
+      .map(order => ({
+        order,
+        dueAmount: getOrderPaymentInfo(order).dueAmount,
+        ageDays: differenceInCalendarDays(asOfDate, parseISO(order.orderDate)),
+      }))
+      .filter(item => item.dueAmount > 0)
+      .sort((a, b) => b.ageDays - a.ageDays);
+    if (unpaidOrders.length === 0) return;
+
+    const buckets = emptyBuckets();
+    unpaidOrders.forEach(item => {
+      buckets[getAgingBucket(item.ageDays)] += item.dueAmount;
+    });
+
+    rows.push({
+      customerId: customer.id,
+      customerName: customer.name,
+      buckets,
+      total: unpaidOrders.reduce((sum, item) => sum + item.dueAmount, 0),
+      oldestDueDate: unpaidOrders[0].order.orderDate,
+      unpaidOrders,
+    });
+  });
+
+  return rows;
+}
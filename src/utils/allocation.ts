@@ -0,0 +1,100 @@
+import { Adjustment, Order, OrderPaymentInfo, OrderPaymentStatus, Payment, PaymentAllocation, PaymentAllocationResult } from '../types';
+import { parseISO } from 'date-fns';
+import { isCreditNote } from './adjustments';
+
+// A payment or credit note, as far as settling orders goes.
+interface Credit {
+  id: string;
+  customerId: string;
+  amount: number;
+  date: string;
+  allocations?: PaymentAllocation[];
+}
+
+function byDate<T>(getDate: (item: T) => string) {
+  return (a: T, b: T) => parseISO(getDate(a)).getTime() - parseISO(getDate(b)).getTime();
+}
+
+export function getOrderPaymentStatus(totalAmount: number, paidAmount: number): OrderPaymentStatus {
+  if (paidAmount >= totalAmount) return 'paid';
+  return paidAmount > 0 ? 'partial' : 'unpaid';
+}
+
+// Works out which orders each payment settles. Manual allocations recorded on a
+// payment are honoured first (capped at what the order still owes); whatever is
+// left of every payment then pays off the customer's oldest unpaid orders. Money
+// left over after all orders is advance credit and stays unallocated until a
+// newer order arrives. A bounced cheque and its reversal cancel out, so neither
+// pays for anything. Credit notes settle orders the same way, their linked order
+// first; manual debits are not orders and are left out.
+export function allocatePayments(orders: Order[], payments: Payment[], adjustments: Adjustment[]): PaymentAllocationResult {
+  const due = new Map(orders.map(order => [order.id, order.totalAmount]));
+  const allocations = new Map<string, PaymentAllocation[]>();
+  const remaining = new Map<string, number>();
+
+  const effectivePayments: Credit[] = [
+    ...payments
+      .filter(payment => payment.amount > 0 && payment.chequeStatus !== 'bounced')
+      .map(payment => ({ ...payment, date: payment.paymentDate })),
+    ...adjustments
+      .filter(isCreditNote)
+      .map(adjustment => ({
+        id: adjustment.id,
+        customerId: adjustment.customerId,
+        amount: adjustment.amount,
+        date: adjustment.adjustmentDate,
+        allocations: adjustment.orderId ? [{ orderId: adjustment.orderId, amount: adjustment.amount }] : undefined,
+      })),
+  ].sort(byDate(credit => credit.date));
+
+  const allocate = (payment: Credit, orderId: string, amount: number) => {
+    if (amount <= 0) return;
+    due.set(orderId, (due.get(orderId) ?? 0) - amount);
+    remaining.set(payment.id, (remaining.get(payment.id) ?? 0) - amount);
+    const list = allocations.get(payment.id) ?? [];
+    const existing = list.find(a => a.orderId === orderId);
+    if (existing) {
+      existing.amount += amount;
+    } else {
+      list.push({ orderId, amount });
+    }
+    allocations.set(payment.id, list);
+  };
+
+  effectivePayments.forEach(payment => {
+    remaining.set(payment.id, payment.amount);
+    allocations.set(payment.id, []);
+    payment.allocations?.forEach(manual => {
+      const order = orders.find(o => o.id === manual.orderId && o.customerId === payment.customerId);
+      if (!order) return;
+      allocate(payment, order.id, Math.min(manual.amount, due.get(order.id) ?? 0, remaining.get(payment.id) ?? 0));
+    });
+  });
+
+  const ordersByCustomer = new Map<string, Order[]>();
+  [...orders].sort(byDate(order => order.orderDate)).forEach(order => {
+    ordersByCustomer.set(order.customerId, [...(ordersByCustomer.get(order.customerId) ?? []), order]);
+  });
+
+  effectivePayments.forEach(payment => {
+    for (const order of ordersByCustomer.get(payment.customerId) ?? []) {
+      const left = remaining.get(payment.id) ?? 0;
+      if (left <= 0) break;
+      allocate(payment, order.id, Math.min(left, due.get(order.id) ?? 0));
+    }
+  });
+
+  const orderInfo = new Map<string, OrderPaymentInfo>();
+  orders.forEach(order => {
+    const dueAmount = Math.max(0, due.get(order.id) ?? 0);
+    const paidAmount = order.totalAmount - dueAmount;
+    orderInfo.set(order.id, {
+      orderId: order.id,
+      paidAmount,
+      dueAmount,
+      status: getOrderPaymentStatus(order.totalAmount, paidAmount),
+    });
+  });
+
+  return { orders: orderInfo, payments: allocations };
+}
@@ -0,0 +1,57 @@
+import { Adjustment, Bill, Customer, LedgerEntry, Order, Payment } from '../types';
+import { format, parseISO } from 'date-fns';
+import { getBalanceBefore } from './ledger';
+import { buildStatement } from './statement';
+
+export function formatBillNumber(sequence: number): string {
+  return `B-${String(sequence).padStart(5, '0')}`;
+}
+
+// Bills are snapshots: everything needed to print them again is copied in, so a
+// re-print matches the original even after orders or payments change.
+export function createBills(
+  customers: Customer[],
+  orders: Order[],
+  payments: Payment[],
+  adjustments: Adjustment[],
+  ledger: LedgerEntry[],
+  periodFrom: string,
+  periodTo: string,
+  firstSequence: number
+): Bill[] {
+  const inPeriod = (date: string) => {
+    const day = format(parseISO(date), 'yyyy-MM-dd');
+    return day >= periodFrom && day <= periodTo;
+  };
+
+  const bills: Bill[] = [];
+
+  customers.forEach(customer => {
+    const customerOrders = orders.filter(o => o.customerId === customer.id && inPeriod(o.orderDate));
+    const customerPayments = payments.filter(p => p.customerId === customer.id && inPeriod(p.paymentDate));
+    const customerAdjustments = adjustments.filter(a => a.customerId === customer.id && inPeriod(a.adjustmentDate));
+    if (customerOrders.length === 0 && customerPayments.length === 0 && customerAdjustments.length === 0) return;
+
+    const statement = buildStatement(
+      customerOrders,
+      customerPayments,
+      customerAdjustments,
+      getBalanceBefore(ledger, periodFrom, customer.id)
+    );
+
+    bills.push({
+      billNumber: formatBillNumber(firstSequence + bills.length),
+      customerId: customer.id,
+      customerName: customer.name,
+      customerPhone: customer.phone,
+      customerAddress: customer.address,
+      openingBalance: statement.openingBalance,
+      totalBilled: statement.totalBilled,
+      totalPaid: statement.totalPaid,
+      closingBalance: statement.closingBalance,
+      lines: statement.lines.map(({ date, description, billed, paid }) => ({ date, description, billed, paid })),
+    });
+  });
+
+  return bills;
+}
@@ -0,0 +1,74 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format, parseISO } from 'date-fns';
+import { Bill, BillingRun, BusinessProfile } from '../types';
+import { addDocumentFooter, addDocumentHeader, getLastTableY } from './pdf';
+import { createZip } from './zip';
+import { formatBalance, isAdvance } from './ledger';
+import { formatMoney } from './money';
+
+// `current` is the saved profile: it gives the logo, and everything else for
+// runs saved without a profile of their own.
+function drawBill(doc: jsPDF, bill: Bill, run: BillingRun, current: BusinessProfile) {
+  const business = run.business ? { ...run.business, logo: current.logo } : current;
+  const startY = addDocumentHeader(doc, business, `Bill ${bill.billNumber}`, [
+    `Period: ${format(parseISO(run.periodFrom), 'MMM dd, yyyy')} to ${format(parseISO(run.periodTo), 'MMM dd, yyyy')}`,
+    `Customer: ${bill.customerName} (${bill.customerPhone})`,
+    bill.customerAddress,
+  ]);
+
+  autoTable(doc, {
+    head: [['Date', 'Description', 'Billed', 'Paid']],
+    body: bill.lines.map(line => [
+      format(parseISO(line.date), 'dd/MM/yyyy'),
+      line.description,
+      line.billed > 0 ? formatMoney(line.billed) : '-',
+      line.paid > 0 ? formatMoney(line.paid) : '-',
+    ]),
+    startY,
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: [14, 165, 233] },
+    columnStyles: {
+      2: { halign: 'right' },
+      3: { halign: 'right' },
+    },
+  });
+
+  const finalY = getLastTableY(doc) + 12;
+  doc.setFontSize(11);
+  doc.text(`Previous Balance: ${formatBalance(bill.openingBalance)}`, 20, finalY);
+  doc.text(`Billed this Period: ${formatMoney(bill.totalBilled)}`, 20, finalY + 7);
+  doc.text(`Received this Period: ${formatMoney(bill.totalPaid)}`, 20, finalY + 14);
+  doc.setFontSize(14);
+  doc.text(isAdvance(bill.closingBalance)
+    ? `Nothing Due - ${formatBalance(bill.closingBalance)} carried forward`
+    : `Amount Due: ${formatMoney(bill.closingBalance)}`, 20, finalY + 26);
+  addDocumentFooter(doc, business, finalY + 26);
+}
+
+export function buildBillPdf(run: BillingRun, bill: Bill, business: BusinessProfile): jsPDF {
+  const doc = new jsPDF();
+  drawBill(doc, bill, run, business);
+  return doc;
+}
+
+// Every bill starts on its own page so the bundle can be printed and handed out.
+export function buildBillingRunPdf(run: BillingRun, business: BusinessProfile): jsPDF {
+  const doc = new jsPDF();
+  run.bills.forEach((bill, index) => {
+    if (index > 0) doc.addPage();
+    drawBill(doc, bill, run, business);
+  });
+  return doc;
+}
+
+export function billFileName(bill: Bill): string {
+  return `${bill.billNumber}-${bill.customerName.replace(/\s+/g, '-').toLowerCase()}.pdf`;
+}
+
+export function buildBillingRunZip(run: BillingRun, business: BusinessProfile): Blob {
+  return createZip(run.bills.map(bill => ({
+    name: billFileName(bill),
+    data: new Uint8Array(buildBillPdf(run, bill, business).output('arraybuffer')),
+  })));
+}
@@ -0,0 +1,9 @@
+export function toCsv(rows: (string | number)[][]): string {
+  return rows
+    .map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))
+    .join('\n');
+}
+
+export function csvBlob(rows: (string | number)[][]): Blob {
+  return new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8;' });
+}
@@ -0,0 +1,63 @@
+import { OrderItem, OrderStatus, ReturnReason } from '../types';
+import { billedQuantity, roundQuantity } from './units';
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: 'Pending',
+  partially_delivered: 'Partially Delivered',
+  delivered: 'Delivered',
+};
+
+export const RETURN_REASONS: ReturnReason[] = ['spoiled', 'damaged', 'rejected', 'excess', 'other'];
+
+export const RETURN_REASON_LABELS: Record<ReturnReason, string> = {
+  spoiled: 'Spoiled',
+  damaged: 'Damaged packet',
+  rejected: 'Refused by customer',
+  excess: 'Not needed',
+  other: 'Other',
+};
+
+// How much of the line never reached the customer, in the line's own terms.
+export function getShortQuantity(item: OrderItem): number {
+  return item.deliveredQuantity === undefined ? 0 : Math.max(0, item.quantity - item.deliveredQuantity);
+}
+
+// A recorded delivery is partial when any line fell short; returns alone don't
+// make it so, since everything did reach the door.
+export function getDeliveryStatus(items: OrderItem[]): OrderStatus {
+  return items.some(item => getShortQuantity(item) > 0) ? 'partially_delivered' : 'delivered';
+}
+
+// Back to billing the ordered quantity, e.g. when an order is marked pending again.
+export function clearDelivery(item: OrderItem): OrderItem {
+  return { ...item, deliveredQuantity: undefined, returnedQuantity: undefined, returnReason: undefined };
+}
+
+// Editing an order rebuilds its lines; a line for the same product and pack
+// keeps what was recorded, capped at its new quantity.
+export function carryDelivery(previous: OrderItem[], items: OrderItem[]): OrderItem[] {
+  return items.map(item => {
+    const before = previous.find(p => p.productId === item.productId && p.variantId === item.variantId);
+    if (!before || before.deliveredQuantity === undefined) return item;
+    const deliveredQuantity = Math.min(before.deliveredQuantity, item.quantity);
+    const returnedQuantity = Math.min(before.returnedQuantity ?? 0, deliveredQuantity);
+    return {
+      ...item,
+      deliveredQuantity,
+      ...(returnedQuantity > 0 ? { returnedQuantity, returnReason: before.returnReason } : {}),
+    };
+  });
+}
+
+// Sets what the customer kept on a loose line. Once a delivery is recorded the
+// ordered and delivered quantities move together, so the shortfall and returns
+// stay as recorded.
+export function setBilledQuantity(item: OrderItem, quantity: number): OrderItem {
+  if (item.deliveredQuantity === undefined) return { ...item, quantity };
+  const change = quantity - billedQuantity(item);
+  return {
+    ...item,
+    quantity: roundQuantity(item.quantity + change, item.unit),
+    deliveredQuantity: roundQuantity(item.deliveredQuantity + change, item.unit),
+  };
+}
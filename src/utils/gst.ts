@@ -0,0 +1,93 @@
+import { ItemTax, Order, OrderItem, Product } from '../types';
+import { getLineTotal } from './orders';
+import { sumPaise } from './money';
+
+export const GST_RATES = [0, 5, 12, 18, 28];
+
+// Two-digit state code, the holder's PAN, an entity number, a 'Z' and a check character.
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const GSTIN_CHARS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+// The GSTN check character: a base-36 Luhn-style sum over the first 14 characters.
+function gstinCheckChar(gstin: string): string {
+  const sum = gstin.slice(0, 14).split('').reduce((total, char, index) => {
+    const product = GSTIN_CHARS.indexOf(char) * (index % 2 === 0 ? 1 : 2);
+    return total + Math.floor(product / 36) + (product % 36);
+  }, 0);
+  return GSTIN_CHARS[(36 - (sum % 36)) % 36];
+}
+
+export function isValidGstin(gstin: string): boolean {
+  return GSTIN_PATTERN.test(gstin) && gstin[14] === gstinCheckChar(gstin);
+}
+
+// GST state codes, as used in the first two digits of a GSTIN.
+export const GST_STATES: Record<string, string> = {
+  '01': 'Jammu and Kashmir', '02': 'Himachal Pradesh', '03': 'Punjab', '04': 'Chandigarh',
+  '05': 'Uttarakhand', '06': 'Haryana', '07': 'Delhi', '08': 'Rajasthan', '09': 'Uttar Pradesh',
+  '10': 'Bihar', '11': 'Sikkim', '12': 'Arunachal Pradesh', '13': 'Nagaland', '14': 'Manipur',
+  '15': 'Mizoram', '16': 'Tripura', '17': 'Meghalaya', '18': 'Assam', '19': 'West Bengal',
+  '20': 'Jharkhand', '21': 'Odisha', '22': 'Chhattisgarh', '23': 'Madhya Pradesh', '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu', '27': 'Maharashtra', '29': 'Karnataka',
+  '30': 'Goa', '31': 'Lakshadweep', '32': 'Kerala', '33': 'Tamil Nadu', '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands', '36': 'Telangana', '37': 'Andhra Pradesh', '38': 'Ladakh',
+};
+
+export function describeState(code: string): string {
+  return GST_STATES[code] ? `${code} - ${GST_STATES[code]}` : code;
+}
+
+export function getStateCode(gstin?: string): string | undefined {
+  return gstin ? gstin.slice(0, 2) : undefined;
+}
+
+// Supplies stay within the state unless both GSTINs are known and differ.
+export function isInterState(businessGstin?: string, customerGstin?: string): boolean {
+  const from = getStateCode(businessGstin);
+  const to = getStateCode(customerGstin);
+  return !!from && !!to && from !== to;
+}
+
+// Prices include GST, so the tax is taken out of the amount rather than added on.
+export function splitTax(amount: number, taxRate: number, interState: boolean): ItemTax {
+  const taxableValue = Math.round(amount * 100 / (100 + taxRate));
+  const tax = amount - taxableValue;
+  if (interState) {
+    return { taxableValue, taxRate, cgst: 0, sgst: 0, igst: tax };
+  }
+  const cgst = Math.round(tax / 2);
+  return { taxableValue, taxRate, cgst, sgst: tax - cgst, igst: 0 };
+}
+
+// Orders made before tax rates existed use the product's current rate.
+export function getItemTaxRate(item: OrderItem, products: Product[]): number {
+  return item.taxRate ?? products.find(p => p.id === item.productId)?.taxRate ?? 0;
+}
+
+export function getItemHsnCode(item: OrderItem, products: Product[]): string | undefined {
+  return item.hsnCode ?? products.find(p => p.id === item.productId)?.hsnCode;
+}
+
+// Each item's share of the order, tax included, and the GST in it. The order
+// discount is shared out by line value, the last line taking what rounding
+// leaves so the shares add up exactly. Delivery charges and round-off are not
+// part of any item.
+export function getOrderItemTaxes(
+  order: Order,
+  products: Product[],
+  interState: boolean
+): { item: OrderItem; amount: number; tax: ItemTax }[] {
+  const lineTotals = order.items.map(getLineTotal);
+  const subtotal = sumPaise(lineTotals);
+  const discount = order.discountAmount ?? 0;
+  let discountLeft = discount;
+
+  return order.items.map((item, index) => {
+    const share = index === order.items.length - 1
+      ? discountLeft
+      : subtotal > 0 ? Math.round(discount * lineTotals[index] / subtotal) : 0;
+    discountLeft -= share;
+    const amount = lineTotals[index] - share;
+    return { item, amount, tax: splitTax(amount, getItemTaxRate(item, products), interState) };
+  });
+}
@@ -0,0 +1,331 @@
+import { format, parseISO } from 'date-fns';
+import {
+  Customer,
+  Gstr1NilRow,
+  Gstr1Report,
+  Invoice,
+  ItemTax,
+  Order,
+  Product,
+  ProductUnit,
+} from '../types';
+import { GST_STATES, getItemHsnCode, getOrderItemTaxes, getStateCode, isValidGstin } from './gst';
+import { exportAmount, toRupees } from './money';
+import { toCsv } from './csv';
+import { createZip } from './zip';
+import { baseQuantity, roundQuantity } from './units';
+
+// Unit quantity codes from the GSTN list.
+const UQC: Record<ProductUnit, string> = {
+  litre: 'LTR',
+  kg: 'KGS',
+  piece: 'NOS',
+  packet: 'PAC',
+};
+
+const NIL_DESCRIPTIONS: Record<Gstr1NilRow['supplyType'], string> = {
+  INTRB2B: 'Inter-State supplies to registered persons',
+  INTRAB2B: 'Intra-State supplies to registered persons',
+  INTRB2C: 'Inter-State supplies to unregistered persons',
+  INTRAB2C: 'Intra-State supplies to unregistered persons',
+};
+
+interface Gstr1Options {
+  // The month's orders, from getFilteredOrders.
+  orders: Order[];
+  // Invoices dated in the month.
+  invoices: Invoice[];
+  customers: Customer[];
+  products: Product[];
+  businessGstin?: string;
+}
+
+function addTax(target: ItemTax, tax: ItemTax) {
+  target.taxableValue += tax.taxableValue;
+  target.cgst += tax.cgst;
+  target.sgst += tax.sgst;
+  target.igst += tax.igst;
+}
+
+function emptyTax(taxRate: number): ItemTax {
+  return { taxableValue: 0, taxRate, cgst: 0, sgst: 0, igst: 0 };
+}
+
+// Groups a month's sales the way GSTR-1 wants them. Invoiced orders are
+// reported through their invoice, on its date, as B2B when the invoice carries
+// a valid GSTIN. Orders without an invoice are B2C sales within the state.
+// Delivery charges are not goods, so they only appear in invoice values.
+export function buildGstr1Report({
+  orders,
+  invoices,
+  customers,
+  products,
+  businessGstin,
+}: Gstr1Options): Gstr1Report {
+  const report: Gstr1Report = { b2b: [], b2cs: [], nil: [], hsn: [], issues: [] };
+  const homeState = getStateCode(businessGstin) ?? '';
+
+  if (!businessGstin) {
+    report.issues.push('Add your GSTIN to the business profile in Settings.');
+  } else if (!isValidGstin(businessGstin)) {
+    report.issues.push(`Your GSTIN ${businessGstin} is not valid.`);
+  }
+
+  const addB2cs = (placeOfSupply: string, interState: boolean, tax: ItemTax) => {
+    let row = report.b2cs.find(r =>
+      r.placeOfSupply === placeOfSupply && r.interState === interState && r.taxRate === tax.taxRate
+    );
+    if (!row) {
+      row = { placeOfSupply, interState, ...emptyTax(tax.taxRate) };
+      report.b2cs.push(row);
+    }
+    addTax(row, tax);
+  };
+
+  const addNil = (supplyType: Gstr1NilRow['supplyType'], amount: number) => {
+    let row = report.nil.find(r => r.supplyType === supplyType);
+    if (!row) {
+      row = { supplyType, nilValue: 0 };
+      report.nil.push(row);
+    }
+    row.nilValue += amount;
+  };
+
+  const addHsn = (
+    hsnCode: string | undefined,
+    description: string,
+    unit: ProductUnit,
+    quantity: number,
+    amount: number,
+    tax: ItemTax
+  ) => {
+    if (!hsnCode && !report.issues.some(issue => issue.startsWith(`${description} has no HSN`))) {
+      report.issues.push(`${description} has no HSN code. Add one on the Products page.`);
+    }
+    const code = hsnCode ?? '';
+    let row = report.hsn.find(r => r.hsnCode === code && r.unit === unit && r.taxRate === tax.taxRate);
+    if (!row) {
+      row = { hsnCode: code, description, unit, quantity: 0, totalValue: 0, ...emptyTax(tax.taxRate) };
+      report.hsn.push(row);
+    }
+    row.quantity = roundQuantity(row.quantity + quantity, unit);
+    row.totalValue += amount;
+    addTax(row, tax);
+  };
+
+  invoices
+    .filter(invoice => !invoice.cancelled)
+    .sort((a, b) => a.invoiceDate.localeCompare(b.invoiceDate) || a.sequence - b.sequence)
+    .forEach(invoice => {
+      const customerGstin = invoice.customerGstin ?? '';
+      const registered = isValidGstin(customerGstin);
+      if (customerGstin && !registered) {
+        report.issues.push(
+          `${invoice.invoiceNumber} has an invalid GSTIN (${customerGstin}) and is reported as B2C. Cancel and reissue it.`
+        );
+      }
+      const placeOfSupply = invoice.placeOfSupply ?? homeState;
+
+      invoice.lines.forEach(line => {
+        addHsn(line.hsnCode, line.description, line.unit ?? 'piece', line.baseQuantity ?? 0, line.amount, line);
+        if (line.taxRate === 0) {
+          addNil(invoice.interState
+            ? (registered ? 'INTRB2B' : 'INTRB2C')
+            : (registered ? 'INTRAB2B' : 'INTRAB2C'), line.amount);
+        } else if (registered) {
+          let row = report.b2b.find(r => r.invoiceNumber === invoice.invoiceNumber && r.taxRate === line.taxRate);
+          if (!row) {
+            row = {
+              customerGstin,
+              customerName: invoice.customerName,
+              invoiceNumber: invoice.invoiceNumber,
+              invoiceDate: invoice.invoiceDate,
+              invoiceValue: invoice.totalAmount,
+              placeOfSupply,
+              ...emptyTax(line.taxRate),
+            };
+            report.b2b.push(row);
+          }
+          addTax(row, line);
+        } else {
+          addB2cs(placeOfSupply, invoice.interState, line);
+        }
+      });
+    });
+
+  const uninvoiced = new Set<string>();
+  orders
+    .filter(order => !order.invoiceId)
+    .forEach(order => {
+      const customer = customers.find(c => c.id === order.customerId);
+      if (customer?.gstin) {
+        if (!isValidGstin(customer.gstin)) {
+          uninvoiced.add(`${customer.name}'s GSTIN ${customer.gstin} is not valid, so their orders are reported as B2C.`);
+        } else {
+          uninvoiced.add(`${customer.name} is registered but has orders without a tax invoice. They are reported as B2C until invoiced.`);
+        }
+      }
+      getOrderItemTaxes(order, products, false).forEach(({ item, amount, tax }) => {
+        addHsn(
+          getItemHsnCode(item, products),
+          item.productName,
+          item.unit ?? 'piece',
+          baseQuantity(item),
+          amount,
+          tax
+        );
+        if (tax.taxRate === 0) {
+          addNil('INTRAB2C', amount);
+        } else {
+          addB2cs(homeState, false, tax);
+        }
+      });
+    });
+  report.issues.push(...uninvoiced);
+
+  report.b2cs.sort((a, b) => a.placeOfSupply.localeCompare(b.placeOfSupply) || a.taxRate - b.taxRate);
+  report.hsn.sort((a, b) => a.hsnCode.localeCompare(b.hsnCode) || a.taxRate - b.taxRate);
+  return report;
+}
+
+// 'yyyy-MM' to the 'MMyyyy' return period GSTN uses.
+function returnPeriod(month: string): string {
+  return `${month.slice(5, 7)}${month.slice(0, 4)}`;
+}
+
+function describePlaceOfSupply(code: string): string {
+  return GST_STATES[code] ? `${code}-${GST_STATES[code]}` : code;
+}
+
+function taxAmounts(tax: ItemTax) {
+  return {
+    txval: toRupees(tax.taxableValue),
+    rt: tax.taxRate,
+    iamt: toRupees(tax.igst),
+    camt: toRupees(tax.cgst),
+    samt: toRupees(tax.sgst),
+    csamt: 0,
+  };
+}
+
+// The JSON accepted by the GST portal's offline tool.
+export function buildGstr1Json(report: Gstr1Report, gstin: string, month: string) {
+  const ctins = [...new Set(report.b2b.map(row => row.customerGstin))];
+  const b2b = ctins.map(ctin => {
+    const rows = report.b2b.filter(row => row.customerGstin === ctin);
+    const invoiceNumbers = [...new Set(rows.map(row => row.invoiceNumber))];
+    return {
+      ctin,
+      inv: invoiceNumbers.map(inum => {
+        const invoiceRows = rows.filter(row => row.invoiceNumber === inum);
+        const first = invoiceRows[0];
+        return {
+          inum,
+          idt: format(parseISO(first.invoiceDate), 'dd-MM-yyyy'),
+          val: toRupees(first.invoiceValue),
+          pos: first.placeOfSupply,
+          rchrg: 'N',
+          inv_typ: 'R',
+          itms: invoiceRows.map(row => ({ num: row.taxRate * 100 + 1, itm_det: taxAmounts(row) })),
+        };
+      }),
+    };
+  });
+
+  return {
+    gstin,
+    fp: returnPeriod(month),
+    version: 'GST3.0.4',
+    hash: 'hash',
+    b2b,
+    b2cs: report.b2cs.map(row => ({
+      sply_ty: row.interState ? 'INTER' : 'INTRA',
+      typ: 'OE',
+      pos: row.placeOfSupply,
+      ...taxAmounts(row),
+    })),
+    nil: {
+      inv: report.nil.map(row => ({
+        sply_ty: row.supplyType,
+        nil_amt: toRupees(row.nilValue),
+        expt_amt: 0,
+        ngsup_amt: 0,
+      })),
+    },
+    hsn: {
+      data: report.hsn.map((row, index) => ({
+        num: index + 1,
+        hsn_sc: row.hsnCode,
+        desc: row.description,
+        uqc: UQC[row.unit],
+        qty: row.quantity,
+        ...taxAmounts(row),
+      })),
+    },
+  };
+}
+
+// The same sections as CSVs with the offline tool's column headings.
+export function buildGstr1Zip(report: Gstr1Report, month: string): Blob {
+  const b2b = [
+    ['GSTIN/UIN of Recipient', 'Receiver Name', 'Invoice Number', 'Invoice date', 'Invoice Value',
+      'Place Of Supply', 'Reverse Charge', 'Applicable % of Tax Rate', 'Invoice Type', 'E-Commerce GSTIN',
+      'Rate', 'Taxable Value', 'Cess Amount'],
+    ...report.b2b.map(row => [
+      row.customerGstin,
+      row.customerName,
+      row.invoiceNumber,
+      format(parseISO(row.invoiceDate), 'dd-MMM-yy'),
+      exportAmount(row.invoiceValue),
+      describePlaceOfSupply(row.placeOfSupply),
+      'N',
+      '',
+      'Regular B2B',
+      '',
+      row.taxRate,
+      exportAmount(row.taxableValue),
+      '',
+    ]),
+  ];
+  const b2cs = [
+    ['Type', 'Place Of Supply', 'Applicable % of Tax Rate', 'Rate', 'Taxable Value', 'Cess Amount', 'E-Commerce GSTIN'],
+    ...report.b2cs.map(row => [
+      'OE',
+      describePlaceOfSupply(row.placeOfSupply),
+      '',
+      row.taxRate,
+      exportAmount(row.taxableValue),
+      '',
+      '',
+    ]),
+  ];
+  const exemp = [
+    ['Description', 'Nil Rated Supplies', 'Exempted(other than nil rated/non GST supply)', 'Non-GST Supplies'],
+    ...report.nil.map(row => [NIL_DESCRIPTIONS[row.supplyType], exportAmount(row.nilValue), '', '']),
+  ];
+  const hsn = [
+    ['HSN', 'Description', 'UQC', 'Total Quantity', 'Total Value', 'Rate', 'Taxable Value',
+      'Integrated Tax Amount', 'Central Tax Amount', 'State/UT Tax Amount', 'Cess Amount'],
+    ...report.hsn.map(row => [
+      row.hsnCode,
+      row.description,
+      UQC[row.unit],
+      row.quantity,
+      exportAmount(row.totalValue),
+      row.taxRate,
+      exportAmount(row.taxableValue),
+      exportAmount(row.igst),
+      exportAmount(row.cgst),
+      exportAmount(row.sgst),
+      '',
+    ]),
+  ];
+
+  const prefix = `gstr1-${month}`;
+  return createZip([
+    { name: `${prefix}-b2b.csv`, data: b2b },
+    { name: `${prefix}-b2cs.csv`, data: b2cs },
+    { name: `${prefix}-exemp.csv`, data: exemp },
+    { name: `${prefix}-hsn.csv`, data: hsn },
+  ].map(({ name, data }) => ({ name, data: toCsv(data) })));
+}
@@ -0,0 +1,113 @@
+import { parseISO } from 'date-fns';
+import { Customer, Invoice, InvoiceLine, Order, Product } from '../types';
+import { getItemHsnCode, getOrderItemTaxes, getStateCode, isInterState } from './gst';
+import { sumPaise } from './money';
+import { baseQuantity, billedQuantity, formatItemQuantity } from './units';
+
+// Indian financial years run from April to March, e.g. '2025-26'.
+export function getFinancialYear(date: string): string {
+  const day = parseISO(date);
+  const startYear = day.getMonth() >= 3 ? day.getFullYear() : day.getFullYear() - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+export function formatInvoiceNumber(financialYear: string, sequence: number): string {
+  return `INV/${financialYear}/${String(sequence).padStart(4, '0')}`;
+}
+
+// Invoices are never deleted, so counting the year's invoices gives the next
+// number without gaps.
+export function getNextInvoiceSequence(invoices: Invoice[], financialYear: string): number {
+  return invoices.filter(invoice => invoice.financialYear === financialYear).length + 1;
+}
+
+interface InvoiceOptions {
+  customer: Customer;
+  orders: Order[];
+  products: Product[];
+  businessGstin?: string;
+  invoiceDate: string;
+  sequence: number;
+  periodFrom?: string;
+  periodTo?: string;
+}
+
+// One line per product, pack, price and tax rate across all the orders, so a
+// month of deliveries fits on a page. The invoice total always equals the
+// orders' totals: delivery charges are listed apart and rounding is kept.
+export function createInvoice({
+  customer,
+  orders,
+  products,
+  businessGstin,
+  invoiceDate,
+  sequence,
+  periodFrom,
+  periodTo,
+}: InvoiceOptions): Omit<Invoice, 'id' | 'createdAt'> {
+  const interState = isInterState(businessGstin, customer.gstin);
+  const sortedOrders = [...orders].sort((a, b) => a.orderDate.localeCompare(b.orderDate));
+
+  const lines: InvoiceLine[] = [];
+  const lineKeys: string[] = [];
+  const lineQuantities: number[] = [];
+  sortedOrders.forEach(order => {
+    getOrderItemTaxes(order, products, interState).forEach(({ item, amount, tax }) => {
+      const key = [item.productId, item.variantId ?? '', item.price, tax.taxRate].join('|');
+      const index = lineKeys.indexOf(key);
+      if (index === -1) {
+        lineKeys.push(key);
+        // The invoice shows what was billed, not what was ordered.
+        lineQuantities.push(billedQuantity(item));
+        lines.push({
+          description: item.productName,
+          hsnCode: getItemHsnCode(item, products),
+          quantity: formatItemQuantity({ ...item, quantity: billedQuantity(item) }),
+          unit: item.unit,
+          baseQuantity: baseQuantity(item),
+          amount,
+          ...tax,
+        });
+        return;
+      }
+      lineQuantities[index] += billedQuantity(item);
+      const line = lines[index];
+      line.quantity = formatItemQuantity({ ...item, quantity: lineQuantities[index] });
+      line.baseQuantity = (line.baseQuantity ?? 0) + baseQuantity(item);
+      line.amount += amount;
+      line.taxableValue += tax.taxableValue;
+      line.cgst += tax.cgst;
+      line.sgst += tax.sgst;
+      line.igst += tax.igst;
+    });
+  });
+
+  const otherCharges = sumPaise(sortedOrders.map(o => o.deliveryCharge ?? 0));
+  const totalAmount = sumPaise(sortedOrders.map(o => o.totalAmount));
+  const financialYear = getFinancialYear(invoiceDate);
+
+  return {
+    invoiceNumber: formatInvoiceNumber(financialYear, sequence),
+    financialYear,
+    sequence,
+    invoiceDate,
+    customerId: customer.id,
+    customerName: customer.name,
+    customerPhone: customer.phone,
+    customerAddress: customer.address,
+    customerGstin: customer.gstin,
+    placeOfSupply: getStateCode(customer.gstin) ?? getStateCode(businessGstin),
+    interState,
+    orderIds: sortedOrders.map(o => o.id),
+    periodFrom,
+    periodTo,
+    lines,
+    taxableValue: sumPaise(lines.map(l => l.taxableValue)),
+    cgst: sumPaise(lines.map(l => l.cgst)),
+    sgst: sumPaise(lines.map(l => l.sgst)),
+    igst: sumPaise(lines.map(l => l.igst)),
+    otherCharges,
+    roundOff: totalAmount - sumPaise(lines.map(l => l.amount)) - otherCharges,
+    totalAmount,
+  };
+}
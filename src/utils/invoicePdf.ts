@@ -0,0 +1,116 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format, parseISO } from 'date-fns';
+import { BusinessProfile, Invoice } from '../types';
+import { addDocumentFooter, addDocumentHeader, getLastTableY } from './pdf';
+import { describeState } from './gst';
+import { formatMoney, sumPaise } from './money';
+
+// Tax by HSN code and rate, as the invoice has to show it.
+function hsnSummary(invoice: Invoice): string[][] {
+  const groups: { hsnCode: string; taxRate: number; taxableValue: number; tax: number }[] = [];
+  invoice.lines.forEach(line => {
+    const hsnCode = line.hsnCode ?? '-';
+    const tax = line.cgst + line.sgst + line.igst;
+    const group = groups.find(g => g.hsnCode === hsnCode && g.taxRate === line.taxRate);
+    if (group) {
+      group.taxableValue += line.taxableValue;
+      group.tax += tax;
+    } else {
+      groups.push({ hsnCode, taxRate: line.taxRate, taxableValue: line.taxableValue, tax });
+    }
+  });
+  return groups.map(g => [g.hsnCode, `${g.taxRate}%`, formatMoney(g.taxableValue), formatMoney(g.tax)]);
+}
+
+export function invoiceFileName(invoice: Invoice): string {
+  return `${invoice.invoiceNumber.replace(/\//g, '-')}.pdf`;
+}
+
+export function buildTaxInvoicePdf(invoice: Invoice, business: BusinessProfile): jsPDF {
+  const details = [
+    `Invoice No: ${invoice.invoiceNumber}    Date: ${format(parseISO(invoice.invoiceDate), 'MMM dd, yyyy')}`,
+    ...(invoice.periodFrom && invoice.periodTo
+      ? [`Period: ${format(parseISO(invoice.periodFrom), 'MMM dd, yyyy')} to ${format(parseISO(invoice.periodTo), 'MMM dd, yyyy')}`]
+      : []),
+    `Bill to: ${invoice.customerName} (${invoice.customerPhone})`,
+    invoice.customerAddress,
+    ...(invoice.customerGstin ? [`Customer GSTIN: ${invoice.customerGstin}`] : []),
+    ...(invoice.placeOfSupply ? [`Place of Supply: ${describeState(invoice.placeOfSupply)}`] : []),
+  ];
+
+  const doc = new jsPDF();
+  const startY = addDocumentHeader(doc, business, invoice.cancelled ? 'Tax Invoice (Cancelled)' : 'Tax Invoice', details);
+
+  const taxHead = invoice.interState ? ['IGST'] : ['CGST', 'SGST'];
+  const taxCells = (tax: { cgst: number; sgst: number; igst: number }) => invoice.interState
+    ? [formatMoney(tax.igst)]
+    : [formatMoney(tax.cgst), formatMoney(tax.sgst)];
+
+  autoTable(doc, {
+    head: [['#', 'Item', 'HSN', 'Qty', 'Taxable', 'GST', ...taxHead, 'Amount']],
+    body: invoice.lines.map((line, index) => [
+      String(index + 1),
+      line.description,
+      line.hsnCode ?? '-',
+      line.quantity,
+      formatMoney(line.taxableValue),
+      `${line.taxRate}%`,
+      ...taxCells(line),
+      formatMoney(line.amount),
+    ]),
+    foot: [['', 'Total', '', '', formatMoney(invoice.taxableValue), '', ...taxCells(invoice), formatMoney(sumPaise(invoice.lines.map(l => l.amount)))]],
+    startY,
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [14, 165, 233] },
+    footStyles: { fillColor: [240, 240, 240], textColor: 20 },
+    // Taxable value through to the amount.
+    columnStyles: Object.fromEntries(
+      Array.from({ length: taxHead.length + 3 }, (_, index) => [index + 4, { halign: 'right' as const }])
+    ),
+  });
+
+  const summary = [
+    ['Taxable Value', formatMoney(invoice.taxableValue)],
+    ...(invoice.interState
+      ? [['IGST', formatMoney(invoice.igst)]]
+      : [['CGST', formatMoney(invoice.cgst)], ['SGST', formatMoney(invoice.sgst)]]),
+    ...(invoice.otherCharges ? [['Delivery Charges', formatMoney(invoice.otherCharges)]] : []),
+    ...(invoice.roundOff ? [['Round Off', `${invoice.roundOff > 0 ? '+' : ''}${formatMoney(invoice.roundOff)}`]] : []),
+    ['Invoice Total', formatMoney(invoice.totalAmount)],
+  ];
+
+  autoTable(doc, {
+    head: [['HSN', 'Rate', 'Taxable', 'Tax']],
+    body: hsnSummary(invoice),
+    startY: getLastTableY(doc) + 8,
+    tableWidth: 90,
+    styles: { fontSize: 8 },
+    headStyles: { fillColor: [100, 116, 139] },
+    columnStyles: { 2: { halign: 'right' }, 3: { halign: 'right' } },
+  });
+
+  autoTable(doc, {
+    body: summary,
+    startY: getLastTableY(doc) + 8,
+    theme: 'plain',
+    tableWidth: 80,
+    margin: { left: 110 },
+    styles: { fontSize: 10 },
+    columnStyles: { 1: { halign: 'right' } },
+    didParseCell: (data) => {
+      if (data.row.index === summary.length - 1) {
+        data.cell.styles.fontStyle = 'bold';
+      }
+    },
+  });
+
+  const signatureY = getLastTableY(doc) + 24;
+  doc.setFontSize(10);
+  doc.text(`For ${business.name}`, 140, signatureY - 10);
+  doc.text('Authorised Signatory', 140, signatureY);
+  doc.line(140, signatureY - 6, 190, signatureY - 6);
+  addDocumentFooter(doc, business, signatureY);
+
+  return doc;
+}
@@ -0,0 +1,89 @@
+import { Adjustment, Order, Payment, LedgerEntry, CustomerBalance } from '../types';
+import { format, parseISO } from 'date-fns';
+import { formatMoney } from './money';
+
+export function emptyBalance(customerId: string): CustomerBalance {
+  return {
+    customerId,
+    totalOrders: 0,
+    totalAmount: 0,
+    paidAmount: 0,
+    adjustedAmount: 0,
+    pendingBalance: 0,
+  };
+}
+
+// Balances are signed: a negative balance is advance credit the customer has
+// paid ahead, which later orders use up on their own as they are debited.
+export function isAdvance(balance: number): boolean {
+  return balance < 0;
+}
+
+export function formatBalance(balance: number): string {
+  return isAdvance(balance) ? `Advance ${formatMoney(-balance)}` : formatMoney(balance);
+}
+
+// Every order debits the customer's account and every payment credits it. A
+// bounced cheque's reversal carries a negative amount, so it credits a negative.
+// Adjustments credit or debit by their sign. Entries are returned oldest first
+// so callers can walk a running balance.
+export function buildLedgerEntries(orders: Order[], payments: Payment[], adjustments: Adjustment[]): LedgerEntry[] {
+  const entries: LedgerEntry[] = [
+    ...orders.map(order => ({
+      id: order.id,
+      customerId: order.customerId,
+      type: 'order' as const,
+      date: order.orderDate,
+      debit: order.totalAmount,
+      credit: 0,
+    })),
+    ...payments.map(payment => ({
+      id: payment.id,
+      customerId: payment.customerId,
+      type: 'payment' as const,
+      date: payment.paymentDate,
+      debit: 0,
+      credit: payment.amount,
+    })),
+    ...adjustments.map(adjustment => ({
+      id: adjustment.id,
+      customerId: adjustment.customerId,
+      type: 'adjustment' as const,
+      date: adjustment.adjustmentDate,
+      debit: Math.max(0, -adjustment.amount),
+      credit: Math.max(0, adjustment.amount),
+    })),
+  ];
+
+  return entries.sort((a, b) => parseISO(a.date).getTime() - parseISO(b.date).getTime());
+}
+
+export function computeCustomerBalances(entries: LedgerEntry[]): Map<string, CustomerBalance> {
+  const balances = new Map<string, CustomerBalance>();
+
+  entries.forEach(entry => {
+    const balance = balances.get(entry.customerId) ?? emptyBalance(entry.customerId);
+    if (entry.type === 'adjustment') {
+      balance.adjustedAmount += entry.credit - entry.debit;
+    } else {
+      if (entry.type === 'order') {
+        balance.totalOrders += 1;
+      }
+      balance.totalAmount += entry.debit;
+      balance.paidAmount += entry.credit;
+    }
+    balance.pendingBalance = balance.totalAmount - balance.paidAmount - balance.adjustedAmount;
+    balances.set(entry.customerId, balance);
+  });
+
+  return balances;
+}
+
+// Balance carried into `date` (a 'yyyy-MM-dd' day): everything strictly before it.
+// Leave `customerId` empty to total across all customers.
+export function getBalanceBefore(entries: LedgerEntry[], date: string, customerId?: string): number {
+  return entries
+    .filter(entry => !customerId || entry.customerId === customerId)
+    .filter(entry => format(parseISO(entry.date), 'yyyy-MM-dd') < date)
+    .reduce((sum, entry) => sum + entry.debit - entry.credit, 0);
+}
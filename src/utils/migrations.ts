@@ -0,0 +1,113 @@
+import { BillingRun, Customer, Order, Payment, Product, RateCard } from '../types';
+import { DEFAULT_UNIT } from './units';
+import { getPriceHistory } from './pricing';
+import { toPaise } from './money';
+
+// Everything the migrations may rewrite, as read from localStorage.
+interface StoredData {
+  products: Product[];
+  customers: Customer[];
+  orders: Order[];
+  payments: Payment[];
+  rateCards: RateCard[];
+  billingRuns: BillingRun[];
+}
+
+interface Migration {
+  version: number;
+  migrate: (data: StoredData) => StoredData;
+}
+
+const DATA_VERSION_KEY = 'dataVersion';
+
+const optionalPaise = (amount?: number) => amount === undefined ? undefined : toPaise(amount);
+
+const MIGRATIONS: Migration[] = [
+  {
+    // Fields added after data was first saved: payment methods, product units
+    // and price history.
+    version: 1,
+    migrate: data => ({
+      ...data,
+      payments: data.payments.map(p => p.method ? p : { ...p, method: 'cash' }),
+      products: data.products.map(p => ({ ...p, unit: p.unit ?? DEFAULT_UNIT, priceHistory: getPriceHistory(p) })),
+    }),
+  },
+  {
+    // Amounts move from rupees (floats) to whole paise. A stored total is kept
+    // as billed rather than recomputed from its lines.
+    version: 2,
+    migrate: data => ({
+      products: data.products.map(p => ({
+        ...p,
+        price: toPaise(p.price),
+        variants: p.variants?.map(v => ({ ...v, price: toPaise(v.price) })),
+        priceHistory: p.priceHistory?.map(version => ({
+          ...version,
+          price: toPaise(version.price),
+          variantPrices: version.variantPrices && Object.fromEntries(
+            Object.entries(version.variantPrices).map(([id, price]) => [id, toPaise(price)])
+          ),
+        })),
+      })),
+      customers: data.customers.map(c => ({ ...c, deliveryCharge: optionalPaise(c.deliveryCharge) })),
+      rateCards: data.rateCards.map(r => ({ ...r, price: toPaise(r.price) })),
+      orders: data.orders.map(o => ({
+        ...o,
+        items: o.items.map(item => ({
+          ...item,
+          price: toPaise(item.price),
+          discount: item.discount?.type === 'flat' ? { ...item.discount, value: toPaise(item.discount.value) } : item.discount,
+        })),
+        discount: o.discount?.type === 'flat' ? { ...o.discount, value: toPaise(o.discount.value) } : o.discount,
+        subtotal: optionalPaise(o.subtotal),
+        discountAmount: optionalPaise(o.discountAmount),
+        deliveryCharge: optionalPaise(o.deliveryCharge),
+        roundOff: optionalPaise(o.roundOff),
+        totalAmount: toPaise(o.totalAmount),
+      })),
+      payments: data.payments.map(p => ({
+        ...p,
+        amount: toPaise(p.amount),
+        allocations: p.allocations?.map(a => ({ ...a, amount: toPaise(a.amount) })),
+      })),
+      billingRuns: data.billingRuns.map(run => ({
+        ...run,
+        bills: run.bills.map(bill => ({
+          ...bill,
+          openingBalance: toPaise(bill.openingBalance),
+          totalBilled: toPaise(bill.totalBilled),
+          totalPaid: toPaise(bill.totalPaid),
+          closingBalance: toPaise(bill.closingBalance),
+          lines: bill.lines.map(line => ({ ...line, billed: toPaise(line.billed), paid: toPaise(line.paid) })),
+        })),
+      })),
+    }),
+  },
+];
+
+export const DATA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Runs once before the app renders, so every screen only ever sees current
+// data. The version is saved last: a failed run is retried on the next load.
+export function runMigrations(storage: Storage = window.localStorage): void {
+  const current = Number(storage.getItem(DATA_VERSION_KEY) ?? 0);
+  const pending = MIGRATIONS.filter(m => m.version > current);
+  if (pending.length === 0) return;
+
+  const read = <T>(key: string): T[] => JSON.parse(storage.getItem(key) ?? '[]');
+  try {
+    const data = pending.reduce((acc, migration) => migration.migrate(acc), {
+      products: read<Product>('products'),
+      customers: read<Customer>('customers'),
+      orders: read<Order>('orders'),
+      payments: read<Payment>('payments'),
+      rateCards: read<RateCard>('rateCards'),
+      billingRuns: read<BillingRun>('billingRuns'),
+    });
+    Object.entries(data).forEach(([key, value]) => storage.setItem(key, JSON.stringify(value)));
+    storage.setItem(DATA_VERSION_KEY, String(DATA_VERSION));
+  } catch (error) {
+    console.error('Error migrating stored data:', error);
+  }
+}
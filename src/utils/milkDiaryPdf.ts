@@ -0,0 +1,128 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { eachDayOfInterval, endOfMonth, format, parseISO } from 'date-fns';
+import { Adjustment, BusinessProfile, Customer, LedgerEntry, Order, Payment, ProductUnit } from '../types';
+import { addDocumentFooter, addDocumentHeader, getLastTableY } from './pdf';
+import { formatBalance, getBalanceBefore } from './ledger';
+import { formatMoney } from './money';
+import { isReversal, PAYMENT_METHOD_LABELS } from './payments';
+import { ADJUSTMENT_REASON_LABELS, isCreditNote } from './adjustments';
+import { baseQuantity, DEFAULT_UNIT, roundQuantity, UNITS } from './units';
+
+interface MilkDiaryCardOptions {
+  customer: Customer;
+  month: Date;
+  orders: Order[];
+  payments: Payment[];
+  adjustments: Adjustment[];
+  ledger: LedgerEntry[];
+  business: BusinessProfile;
+}
+
+// Builds the calendar-style monthly card customers are used to signing:
+// one row per day, one column per product, followed by the account summary.
+export function buildMilkDiaryCard({ customer, month, orders, payments, adjustments, ledger, business }: MilkDiaryCardOptions): jsPDF {
+  const monthStart = format(month, 'yyyy-MM-dd');
+  const monthEnd = format(endOfMonth(month), 'yyyy-MM-dd');
+  const inMonth = (date: string) => {
+    const day = format(parseISO(date), 'yyyy-MM-dd');
+    return day >= monthStart && day <= monthEnd;
+  };
+
+  const monthOrders = orders.filter(o => o.customerId === customer.id && inMonth(o.orderDate));
+  const monthPayments = payments
+    .filter(p => p.customerId === customer.id && inMonth(p.paymentDate))
+    .sort((a, b) => a.paymentDate.localeCompare(b.paymentDate));
+  const monthAdjustments = adjustments
+    .filter(a => a.customerId === customer.id && inMonth(a.adjustmentDate))
+    .sort((a, b) => a.adjustmentDate.localeCompare(b.adjustmentDate));
+
+  const columns: { productId: string; name: string; unit: ProductUnit }[] = [];
+  monthOrders.forEach(order => order.items.forEach(item => {
+    if (!columns.some(c => c.productId === item.productId)) {
+      columns.push({ productId: item.productId, name: item.productName, unit: item.unit ?? DEFAULT_UNIT });
+    }
+  }));
+
+  const days = eachDayOfInterval({ start: month, end: endOfMonth(month) });
+  const columnTotals = columns.map(() => 0);
+  let monthTotal = 0;
+
+  const body = days.map(day => {
+    const key = format(day, 'yyyy-MM-dd');
+    const dayOrders = monthOrders.filter(o => format(parseISO(o.orderDate), 'yyyy-MM-dd') === key);
+    const quantities = columns.map((column, index) => {
+      const quantity = dayOrders
+        .flatMap(o => o.items)
+        .filter(i => i.productId === column.productId)
+        .reduce((sum, i) => sum + baseQuantity(i), 0);
+      columnTotals[index] += quantity;
+      return quantity > 0 ? String(roundQuantity(quantity, column.unit)) : '';
+    });
+    const amount = dayOrders.reduce((sum, o) => sum + o.totalAmount, 0);
+    monthTotal += amount;
+    return [format(day, 'dd EEE'), ...quantities, amount > 0 ? formatMoney(amount, { symbol: false }) : ''];
+  });
+
+  const previousBalance = getBalanceBefore(ledger, monthStart, customer.id);
+  const paymentsTotal = monthPayments.reduce((sum, p) => sum + p.amount, 0);
+  const adjustmentsTotal = monthAdjustments.reduce((sum, a) => sum + a.amount, 0);
+  const closingBalance = previousBalance + monthTotal - paymentsTotal - adjustmentsTotal;
+
+  const doc = new jsPDF();
+  const startY = addDocumentHeader(doc, business, `Milk Card - ${format(month, 'MMMM yyyy')}`, [
+    `Customer: ${customer.name}`,
+    `${customer.phone}, ${customer.address}`,
+  ]);
+
+  autoTable(doc, {
+    head: [['Day', ...columns.map(c => `${c.name} (${UNITS[c.unit].short})`), 'Amount']],
+    body,
+    foot: [['Total', ...columnTotals.map((t, index) => String(roundQuantity(t, columns[index].unit))), formatMoney(monthTotal, { symbol: false })]],
+    startY,
+    styles: { fontSize: 8, cellPadding: 1 },
+    headStyles: { fillColor: [14, 165, 233] },
+    footStyles: { fillColor: [240, 240, 240], textColor: 20 },
+    columnStyles: {
+      ...Object.fromEntries(columns.map((_, index) => [index + 1, { halign: 'center' as const }])),
+      [columns.length + 1]: { halign: 'right' },
+    },
+  });
+
+  const summary = [
+    ['Previous Balance', formatBalance(previousBalance)],
+    ['This Month', formatMoney(monthTotal)],
+    ...monthPayments.map(p => isReversal(p)
+      ? [`Cheque bounced on ${format(parseISO(p.paymentDate), 'dd/MM/yyyy')}`, `+ ${formatMoney(-p.amount)}`]
+      : [`Paid on ${format(parseISO(p.paymentDate), 'dd/MM/yyyy')} (${PAYMENT_METHOD_LABELS[p.method]})`, `- ${formatMoney(p.amount)}`]
+    ),
+    ...monthAdjustments.map(a => isCreditNote(a)
+      ? [`Credit on ${format(parseISO(a.adjustmentDate), 'dd/MM/yyyy')} (${ADJUSTMENT_REASON_LABELS[a.reason]})`, `- ${formatMoney(a.amount)}`]
+      : [`Charged on ${format(parseISO(a.adjustmentDate), 'dd/MM/yyyy')} (${ADJUSTMENT_REASON_LABELS[a.reason]})`, `+ ${formatMoney(-a.amount)}`]
+    ),
+    ['Closing Balance', formatBalance(closingBalance)],
+  ];
+
+  autoTable(doc, {
+    body: summary,
+    startY: getLastTableY(doc) + 8,
+    theme: 'plain',
+    tableWidth: 90,
+    styles: { fontSize: 10 },
+    columnStyles: { 1: { halign: 'right' } },
+    didParseCell: (data) => {
+      if (data.row.index === summary.length - 1) {
+        data.cell.styles.fontStyle = 'bold';
+      }
+    },
+  });
+
+  const signatureY = getLastTableY(doc) + 20;
+  doc.setFontSize(10);
+  doc.text('Customer Signature', 140, signatureY);
+  doc.line(140, signatureY - 6, 190, signatureY - 6);
+
+  addDocumentFooter(doc, business, signatureY);
+
+  return doc;
+}
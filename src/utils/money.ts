@@ -0,0 +1,94 @@
+import { DigitGrouping, MoneyFormat, RoundingMode } from '../types';
+
+// Money is stored and added up as whole paise (₹1 = 100 paise), so totals on
+// screen, in PDFs and in exports always agree. Rupees only appear where an
+// amount is typed in or shown.
+
+export function toPaise(rupees: number): number {
+  return Math.round(rupees * 100);
+}
+
+export function toRupees(paise: number): number {
+  return paise / 100;
+}
+
+// Reads an amount typed in rupees; undefined when it isn't a number.
+export function parseRupees(value: string): number | undefined {
+  const rupees = parseFloat(value);
+  return isNaN(rupees) ? undefined : toPaise(rupees);
+}
+
+// Prefills an input with an amount, e.g. '12.5'.
+export function rupeesInput(paise: number): string {
+  return String(toRupees(paise));
+}
+
+export function sumPaise(amounts: number[]): number {
+  return amounts.reduce((sum, amount) => sum + amount, 0);
+}
+
+export function percentOf(paise: number, percent: number): number {
+  return Math.round(paise * percent / 100);
+}
+
+export function roundToRupee(paise: number, mode: RoundingMode): number {
+  switch (mode) {
+    case 'nearest': return Math.round(paise / 100) * 100;
+    case 'up': return Math.ceil(paise / 100) * 100;
+    case 'down': return Math.floor(paise / 100) * 100;
+    default: return paise;
+  }
+}
+
+export const DEFAULT_MONEY_FORMAT: MoneyFormat = {
+  grouping: 'indian',
+  decimals: true,
+  symbol: true,
+};
+
+const GROUPING_LOCALES: Record<DigitGrouping, string> = {
+  indian: 'en-IN',
+  international: 'en-US',
+  none: 'en-US',
+};
+
+// Chosen on the Settings page; SettingsProvider keeps it in step so PDFs and
+// exports built outside React format the same way as the screens.
+let currentFormat = DEFAULT_MONEY_FORMAT;
+
+export function setMoneyFormat(format: MoneyFormat): void {
+  currentFormat = format;
+}
+
+// The one way amounts are written out, e.g. '₹1,25,000.00' or '-₹40'. Options
+// override the saved format for a single call.
+export function formatMoney(paise: number, options: Partial<MoneyFormat> = {}): string {
+  const { grouping, decimals, symbol } = { ...currentFormat, ...options };
+  const digits = decimals ? 2 : 0;
+  const number = (Math.abs(paise) / 100).toLocaleString(GROUPING_LOCALES[grouping], {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+    useGrouping: grouping !== 'none',
+  });
+  // Amounts that display as zero drop their sign.
+  const sign = paise < 0 && /[1-9]/.test(number) ? '-' : '';
+  return `${sign}${symbol ? '₹' : ''}${number}`;
+}
+
+// The Excel number format for the same display, for cells holding rupees.
+// Excel has no lakh grouping of its own, so it is built from conditional
+// sections; negative amounts fall into the last one and group in thousands.
+export function excelMoneyFormat(options: Partial<MoneyFormat> = {}): string {
+  const { grouping, decimals, symbol } = { ...currentFormat, ...options };
+  const prefix = symbol ? '"₹"' : '';
+  const fraction = decimals ? '.00' : '';
+  if (grouping === 'none') return `${prefix}0${fraction}`;
+  if (grouping === 'international') return `${prefix}#,##0${fraction}`;
+  return `[>=10000000]${prefix}##\\,##\\,##\\,##0${fraction};[>=100000]${prefix}##\\,##\\,##0${fraction};${prefix}##,##0${fraction}`;
+}
+
+// Plain numbers with paise for CSV cells, so spreadsheets read them as values
+// whatever the display format.
+export function exportAmount(paise: number): string {
+  return formatMoney(paise, { grouping: 'none', decimals: true, symbol: false });
+}
@@ -0,0 +1,94 @@
+import { Discount, Order, OrderItem, OrderTotals, Product, RateCard, RoundingMode } from '../types';
+import { billedQuantity, DEFAULT_UNIT, formatItemQuantity } from './units';
+import { findRateCard, getProductPriceOn } from './pricing';
+import { formatMoney, percentOf, roundToRupee, sumPaise } from './money';
+
+// Prices come from the customer's rate cards (see getCustomerRateCards) when one
+// matches, otherwise from the version in force on `date`, the day the order is for.
+export function buildOrderItems(
+  items: { productId: string; quantity: number; variantId?: string; discount?: Discount }[],
+  products: Product[],
+  date: string,
+  rateCards: RateCard[] = []
+): OrderItem[] {
+  return items.map(item => {
+    const product = products.find(p => p.id === item.productId);
+    const variant = item.variantId ? product?.variants?.find(v => v.id === item.variantId) : undefined;
+    return {
+      productId: item.productId,
+      productName: product?.name || '',
+      quantity: item.quantity,
+      price: findRateCard(rateCards, item.productId, variant?.id)?.price
+        ?? (product ? getProductPriceOn(product, date, variant?.id) : 0),
+      unit: product?.unit ?? DEFAULT_UNIT,
+      ...(variant ? { variantId: variant.id, variantName: variant.name, packSize: variant.size } : {}),
+      ...(item.discount ? { discount: item.discount } : {}),
+      ...(product?.hsnCode ? { hsnCode: product.hsnCode } : {}),
+      ...(product?.taxRate !== undefined ? { taxRate: product.taxRate } : {}),
+    };
+  });
+}
+
+// Never more than the amount it is taken from. A flat discount is in paise.
+export function getDiscountAmount(amount: number, discount?: Discount): number {
+  if (!discount || !(discount.value > 0)) return 0;
+  const off = discount.type === 'percent' ? percentOf(amount, discount.value) : discount.value;
+  return Math.min(amount, off);
+}
+
+// Quantities can be fractional, so each line is rounded to the paisa once.
+// Short deliveries and returns are not charged for.
+export function getLineTotal(item: OrderItem): number {
+  const gross = Math.round(item.price * billedQuantity(item));
+  return gross - getDiscountAmount(gross, item.discount);
+}
+
+// The items' value after their own discounts, before anything at order level.
+export function calculateOrderTotal(items: OrderItem[]): number {
+  return sumPaise(items.map(getLineTotal));
+}
+
+export function calculateOrderTotals(
+  order: Pick<Order, 'items' | 'discount' | 'deliveryCharge'>,
+  rounding: RoundingMode
+): OrderTotals {
+  const subtotal = calculateOrderTotal(order.items);
+  const discountAmount = getDiscountAmount(subtotal, order.discount);
+  const deliveryCharge = order.deliveryCharge ?? 0;
+  const exact = subtotal - discountAmount + deliveryCharge;
+  const totalAmount = roundToRupee(exact, rounding);
+  return { subtotal, discountAmount, deliveryCharge, roundOff: totalAmount - exact, totalAmount };
+}
+
+export function describeDiscount(discount: Discount): string {
+  return discount.type === 'percent' ? `${discount.value}% off` : `${formatMoney(discount.value)} off`;
+}
+
+// "2 L Milk (1.5 L delivered, 0.5 L returned)" once a short delivery or return is recorded.
+export function describeItem(item: OrderItem): string {
+  const notes: string[] = [];
+  if (item.deliveredQuantity !== undefined && item.deliveredQuantity !== item.quantity) {
+    notes.push(`${formatItemQuantity({ ...item, quantity: item.deliveredQuantity })} delivered`);
+  }
+  if (item.returnedQuantity) {
+    notes.push(`${formatItemQuantity({ ...item, quantity: item.returnedQuantity })} returned`);
+  }
+  return `${formatItemQuantity(item)} ${item.productName}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`;
+}
+
+// Lists what sits between the items and the total, e.g. for statement lines.
+export function describeOrderCharges(order: Order): string[] {
+  const charges: string[] = [];
+  if (order.discountAmount) charges.push(`discount ${formatMoney(-order.discountAmount)}`);
+  if (order.deliveryCharge) charges.push(`delivery ${formatMoney(order.deliveryCharge)}`);
+  if (order.roundOff) charges.push(`round off ${order.roundOff > 0 ? '+' : ''}${formatMoney(order.roundOff)}`);
+  return charges;
+}
+
+export function describeOrder(order: Order): string {
+  const items = order.items
+    .map(item => item.discount ? `${describeItem(item)} (${describeDiscount(item.discount)})` : describeItem(item))
+    .join(', ');
+  const charges = describeOrderCharges(order);
+  return `Order: ${items}${charges.length > 0 ? `; ${charges.join(', ')}` : ''}`;
+}
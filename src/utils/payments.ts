@@ -0,0 +1,52 @@
+import { ChequeStatus, Payment, PaymentMethod } from '../types';
+import { formatBalance } from './ledger';
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'upi', 'cheque', 'bank_transfer'];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  upi: 'UPI',
+  cheque: 'Cheque',
+  bank_transfer: 'Bank Transfer',
+};
+
+export const REFERENCE_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Receipt Number',
+  upi: 'UPI Transaction ID',
+  cheque: 'Cheque Number',
+  bank_transfer: 'UTR Number',
+};
+
+export const CHEQUE_STATUS_LABELS: Record<ChequeStatus, string> = {
+  pending: 'Awaiting Clearance',
+  cleared: 'Cleared',
+  bounced: 'Bounced',
+};
+
+export function isReversal(payment: Payment): boolean {
+  return !!payment.reversalOf;
+}
+
+// Only a cheque can bounce, and only once.
+export function canReversePayment(payment: Payment): boolean {
+  return payment.method === 'cheque' && !isReversal(payment) && payment.chequeStatus !== 'bounced';
+}
+
+// A payment and any reversal recorded against it are removed together.
+export function getLinkedPaymentIds(payments: Payment[], id: string): string[] {
+  return [id, ...payments.filter(p => p.reversalOf === id).map(p => p.id)];
+}
+
+export function describeBalanceChange(action: string, currentBalance: number, newBalance: number): string {
+  return `${action}\n\nBalance will change from ${formatBalance(currentBalance)} to ${formatBalance(newBalance)}.`;
+}
+
+export function describePayment(payment: Payment): string {
+  if (isReversal(payment)) {
+    return `Cheque bounced${payment.reference ? ` (ref ${payment.reference})` : ''}${payment.note ? ` - ${payment.note}` : ''}`;
+  }
+  const parts = [PAYMENT_METHOD_LABELS[payment.method]];
+  if (payment.reference) parts.push(`ref ${payment.reference}`);
+  if (payment.method === 'cheque' && payment.chequeStatus) parts.push(CHEQUE_STATUS_LABELS[payment.chequeStatus].toLowerCase());
+  return `Payment received (${parts.join(', ')})${payment.note ? ` - ${payment.note}` : ''}`;
+}
@@ -0,0 +1,68 @@
+import jsPDF from 'jspdf';
+import { BusinessProfile } from '../types';
+
+const LOGO_SIZE = 25;
+
+function imageFormat(dataUrl: string): string {
+  return dataUrl.startsWith('data:image/png') ? 'PNG' : 'JPEG';
+}
+
+// Draws the business letterhead (logo, name and contact lines), the document
+// title and any detail lines, and returns the y position where the document
+// body should start.
+export function addDocumentHeader(doc: jsPDF, business: BusinessProfile, title: string, details: string[] = []): number {
+  if (business.logo) {
+    const x = doc.internal.pageSize.getWidth() - 20 - LOGO_SIZE;
+    doc.addImage(business.logo, imageFormat(business.logo), x, 10, LOGO_SIZE, LOGO_SIZE);
+  }
+
+  doc.setFontSize(20);
+  doc.text(business.name, 20, 20);
+
+  const contact = [
+    ...(business.address ? business.address.split('\n') : []),
+    ...(business.phone ? [`Phone: ${business.phone}`] : []),
+    ...(business.gstin ? [`GSTIN: ${business.gstin}`] : []),
+  ];
+  doc.setFontSize(9);
+  contact.forEach((line, index) => {
+    doc.text(line, 20, 26 + index * 5);
+  });
+  const titleY = 30 + contact.length * 5;
+
+  doc.setFontSize(14);
+  doc.text(title, 20, titleY);
+
+  doc.setFontSize(10);
+  details.forEach((line, index) => {
+    doc.text(line, 20, titleY + 10 + index * 8);
+  });
+
+  return titleY + 10 + details.length * 8 + 4;
+}
+
+// Payment details and terms, along the bottom of the current page, or of a new
+// page when the content, ending at `contentBottom`, reaches down to them.
+export function addDocumentFooter(doc: jsPDF, business: BusinessProfile, contentBottom: number): void {
+  const lines: string[] = [
+    ...(business.bankDetails ? business.bankDetails.split('\n') : []),
+    ...(business.upiId ? [`UPI: ${business.upiId}`] : []),
+    ...(business.footerTerms ? doc.splitTextToSize(business.footerTerms, doc.internal.pageSize.getWidth() - 40) : []),
+  ];
+  if (lines.length === 0) return;
+
+  const bottom = doc.internal.pageSize.getHeight() - 10;
+  const top = bottom - lines.length * 4;
+  if (contentBottom > top - 4) doc.addPage();
+  doc.setFontSize(8);
+  doc.setTextColor(100);
+  lines.forEach((line, index) => {
+    doc.text(line, 20, bottom - (lines.length - 1 - index) * 4);
+  });
+  doc.setTextColor(0);
+}
+
+// jspdf-autotable records where the last table ended on the document.
+export function getLastTableY(doc: jsPDF): number {
+  return (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+}
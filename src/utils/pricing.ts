@@ -0,0 +1,116 @@
+import { Customer, PriceChangeType, PriceVersion, Product, RateCard } from '../types';
+import { format, parseISO } from 'date-fns';
+import { percentOf } from './money';
+
+function toDay(date: string): string {
+  return date.length > 10 ? format(parseISO(date), 'yyyy-MM-dd') : date;
+}
+
+// Products saved before price history existed have a single version that
+// started when they were added.
+export function getPriceHistory(product: Product): PriceVersion[] {
+  if (product.priceHistory && product.priceHistory.length > 0) {
+    return [...product.priceHistory].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+  }
+  return [{
+    effectiveFrom: toDay(product.createdAt),
+    price: product.price,
+    variantPrices: Object.fromEntries((product.variants ?? []).map(v => [v.id, v.price])),
+  }];
+}
+
+// The version in force on `date`. Days before the first version use the first
+// one, so back-dated entries always get a price.
+export function getPriceVersionOn(product: Product, date: string): PriceVersion {
+  const day = toDay(date);
+  const history = getPriceHistory(product);
+  return [...history].reverse().find(v => v.effectiveFrom <= day) ?? history[0];
+}
+
+export function getProductPriceOn(product: Product, date: string, variantId?: string): number {
+  const version = getPriceVersionOn(product, date);
+  if (variantId) {
+    return version.variantPrices?.[variantId]
+      ?? product.variants?.find(v => v.id === variantId)?.price
+      ?? version.price;
+  }
+  return version.price;
+}
+
+// A second change on the same day replaces the first rather than stacking.
+export function upsertPriceVersion(history: PriceVersion[], version: PriceVersion): PriceVersion[] {
+  return [...history.filter(v => v.effectiveFrom !== version.effectiveFrom), version]
+    .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+}
+
+// Keeps `price` and the pack prices on the product showing today's rates.
+export function withPriceHistory(product: Product, history: PriceVersion[], today: string): Product {
+  const updated = { ...product, priceHistory: history };
+  const current = getPriceVersionOn(updated, today);
+  return {
+    ...updated,
+    price: current.price,
+    variants: product.variants?.map(v => ({ ...v, price: current.variantPrices?.[v.id] ?? v.price })),
+  };
+}
+
+// `value` is a percentage, or paise for an amount change.
+export function applyPriceChange(price: number, type: PriceChangeType, value: number): number {
+  const next = type === 'percent' ? price + percentOf(price, value) : price + value;
+  return Math.max(0, next);
+}
+
+export function changePriceVersion(version: PriceVersion, effectiveFrom: string, type: PriceChangeType, value: number): PriceVersion {
+  return {
+    effectiveFrom,
+    price: applyPriceChange(version.price, type, value),
+    variantPrices: version.variantPrices && Object.fromEntries(
+      Object.entries(version.variantPrices).map(([id, price]) => [id, applyPriceChange(price, type, value)])
+    ),
+  };
+}
+
+// Changes the price in force on `effectiveFrom` and any versions already
+// scheduled after it, so a planned later change keeps its relative step.
+export function applyBulkPriceChange(
+  product: Product,
+  effectiveFrom: string,
+  type: PriceChangeType,
+  value: number,
+  today: string
+): Product {
+  const history = getPriceHistory(product);
+  const base = getPriceVersionOn(product, effectiveFrom);
+  const changed = upsertPriceVersion(
+    history.map(v => v.effectiveFrom > effectiveFrom ? changePriceVersion(v, v.effectiveFrom, type, value) : v),
+    changePriceVersion(base, effectiveFrom, type, value)
+  );
+  return withPriceHistory(product, changed, today);
+}
+
+// The cards that apply to `customer`, their own ahead of their group's, so the
+// first match for a product wins.
+export function getCustomerRateCards(customer: Customer | undefined, rateCards: RateCard[]): RateCard[] {
+  if (!customer) return [];
+  return [
+    ...rateCards.filter(r => r.customerId === customer.id),
+    ...(customer.group ? rateCards.filter(r => !r.customerId && r.group === customer.group) : []),
+  ];
+}
+
+export function findRateCard(rateCards: RateCard[], productId: string, variantId?: string): RateCard | undefined {
+  return rateCards.find(r => r.productId === productId && r.variantId === variantId);
+}
+
+export function describeRateCardItem(rateCard: RateCard, products: Product[]): string {
+  const product = products.find(p => p.id === rateCard.productId);
+  if (!product) return 'Unknown product';
+  const variant = rateCard.variantId ? product.variants?.find(v => v.id === rateCard.variantId) : undefined;
+  return variant ? `${product.name} (${variant.name})` : product.name;
+}
+
+// What the item would cost on `date` without the card.
+export function getStandardPrice(rateCard: RateCard, products: Product[], date: string): number | undefined {
+  const product = products.find(p => p.id === rateCard.productId);
+  return product && getProductPriceOn(product, date, rateCard.variantId);
+}
@@ -0,0 +1,72 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format, parseISO } from 'date-fns';
+import { BusinessProfile, Order, Payment, PaymentAllocation } from '../types';
+import { addDocumentFooter, addDocumentHeader, getLastTableY } from './pdf';
+import { describeOrder } from './orders';
+import { formatMoney } from './money';
+import { CHEQUE_STATUS_LABELS, PAYMENT_METHOD_LABELS } from './payments';
+
+interface PaymentReceiptOptions {
+  payment: Payment;
+  allocations: PaymentAllocation[];
+  orders: Order[];
+  business: BusinessProfile;
+}
+
+// A receipt lists the orders the payment settled; anything left over is shown
+// as advance credit waiting for future orders.
+export function buildPaymentReceipt({ payment, allocations, orders, business }: PaymentReceiptOptions): jsPDF {
+  const details = [
+    `Receipt No: ${payment.id.toUpperCase()}`,
+    `Date: ${format(parseISO(payment.paymentDate), 'MMM dd, yyyy')}`,
+    `Received from: ${payment.customerName}`,
+    `Method: ${PAYMENT_METHOD_LABELS[payment.method]}${payment.reference ? ` (ref ${payment.reference})` : ''}`,
+  ];
+  if (payment.method === 'cheque' && payment.chequeStatus) {
+    details.push(`Cheque Status: ${CHEQUE_STATUS_LABELS[payment.chequeStatus]}`);
+  }
+  if (payment.note) {
+    details.push(`Note: ${payment.note}`);
+  }
+
+  const doc = new jsPDF();
+  const startY = addDocumentHeader(doc, business, 'Payment Receipt', details);
+
+  const rows = allocations
+    .map(allocation => ({ allocation, order: orders.find(o => o.id === allocation.orderId) }))
+    .filter((row): row is { allocation: PaymentAllocation; order: Order } => !!row.order)
+    .sort((a, b) => a.order.orderDate.localeCompare(b.order.orderDate));
+  const allocated = rows.reduce((sum, row) => sum + row.allocation.amount, 0);
+  const advance = payment.amount - allocated;
+
+  autoTable(doc, {
+    head: [['Order Date', 'Description', 'Order Total', 'Settled']],
+    body: [
+      ...rows.map(({ allocation, order }) => [
+        format(parseISO(order.orderDate), 'dd/MM/yyyy'),
+        describeOrder(order),
+        formatMoney(order.totalAmount),
+        formatMoney(allocation.amount),
+      ]),
+      ...(advance > 0 ? [['', 'Kept as advance for future orders', '', formatMoney(advance)]] : []),
+    ],
+    foot: [['', 'Amount Received', '', formatMoney(payment.amount)]],
+    startY,
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: [14, 165, 233] },
+    footStyles: { fillColor: [240, 240, 240], textColor: 20 },
+    columnStyles: {
+      2: { halign: 'right' },
+      3: { halign: 'right' },
+    },
+  });
+
+  const signatureY = getLastTableY(doc) + 24;
+  doc.setFontSize(10);
+  doc.text('Received by', 140, signatureY);
+  doc.line(140, signatureY - 6, 190, signatureY - 6);
+  addDocumentFooter(doc, business, signatureY);
+
+  return doc;
+}
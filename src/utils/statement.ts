@@ -0,0 +1,59 @@
+import { Adjustment, Order, Payment, Statement, StatementLine } from '../types';
+import { parseISO } from 'date-fns';
+import { describeOrder } from './orders';
+import { describePayment } from './payments';
+import { describeAdjustment } from './adjustments';
+
+// Lays out the period's orders, payments and adjustments oldest first, carrying
+// the running balance forward from `openingBalance` (everything owed before the
+// period). Credit notes sit in the paid column and manual debits in billed.
+export function buildStatement(
+  orders: Order[],
+  payments: Payment[],
+  adjustments: Adjustment[],
+  openingBalance: number
+): Statement {
+  const lines: Omit<StatementLine, 'balance'>[] = [
+    ...orders.map(order => ({
+      date: order.orderDate,
+      type: 'order' as const,
+      description: describeOrder(order),
+      billed: order.totalAmount,
+      paid: 0,
+      customerName: order.customerName,
+    })),
+    ...payments.map(payment => ({
+      date: payment.paymentDate,
+      type: 'payment' as const,
+      description: describePayment(payment),
+      billed: payment.amount < 0 ? -payment.amount : 0,
+      paid: payment.amount > 0 ? payment.amount : 0,
+      customerName: payment.customerName,
+    })),
+    ...adjustments.map(adjustment => ({
+      date: adjustment.adjustmentDate,
+      type: 'adjustment' as const,
+      description: describeAdjustment(adjustment),
+      billed: Math.max(0, -adjustment.amount),
+      paid: Math.max(0, adjustment.amount),
+      customerName: adjustment.customerName,
+    })),
+  ].sort((a, b) => parseISO(a.date).getTime() - parseISO(b.date).getTime());
+
+  let balance = openingBalance;
+  const withBalance = lines.map(line => {
+    balance += line.billed - line.paid;
+    return { ...line, balance };
+  });
+
+  const totalBilled = lines.reduce((sum, line) => sum + line.billed, 0);
+  const totalPaid = lines.reduce((sum, line) => sum + line.paid, 0);
+
+  return {
+    openingBalance,
+    lines: withBalance,
+    totalBilled,
+    totalPaid,
+    closingBalance: openingBalance + totalBilled - totalPaid,
+  };
+}
@@ -0,0 +1,80 @@
+import { Customer, Order, PausePeriod, Product, RateCard, RoundingMode, Subscription, SubscriptionPreview } from '../types';
+import { getDay, parseISO } from 'date-fns';
+import { buildOrderItems, calculateOrderTotals } from './orders';
+import { getCustomerRateCards } from './pricing';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Dates are compared as 'yyyy-MM-dd' strings, which sort chronologically.
+export function isSubscriptionDueOn(subscription: Subscription, date: string): boolean {
+  if (!subscription.active) return false;
+  if (date < subscription.startDate) return false;
+  if (subscription.endDate && date > subscription.endDate) return false;
+  return subscription.weekdays.includes(getDay(parseISO(date)));
+}
+
+// A pause without a product applies to everything the customer takes.
+export function isPausedOn(pauses: PausePeriod[], customerId: string, productId: string, date: string): boolean {
+  return pauses.some(pause =>
+    pause.customerId === customerId &&
+    (!pause.productId || pause.productId === productId) &&
+    pause.startDate <= date &&
+    pause.endDate >= date
+  );
+}
+
+export function getUpcomingPauses(pauses: PausePeriod[], customerId: string, today: string): PausePeriod[] {
+  return pauses
+    .filter(pause => pause.customerId === customerId && pause.endDate >= today)
+    .sort((a, b) => a.startDate.localeCompare(b.startDate));
+}
+
+export function previewSubscriptionOrders(
+  subscriptions: Subscription[],
+  pauses: PausePeriod[],
+  orders: Order[],
+  products: Product[],
+  date: string,
+  customers: Customer[],
+  rateCards: RateCard[],
+  rounding: RoundingMode
+): SubscriptionPreview[] {
+  return subscriptions
+    .filter(subscription => isSubscriptionDueOn(subscription, date))
+    .map(subscription => {
+      const deliverable = subscription.items.filter(item =>
+        !isPausedOn(pauses, subscription.customerId, item.productId, date)
+      );
+      const customer = customers.find(c => c.id === subscription.customerId);
+      const items = buildOrderItems(
+        deliverable.length > 0 ? deliverable : subscription.items,
+        products,
+        date,
+        getCustomerRateCards(customer, rateCards)
+      );
+      const alreadyCreated = orders.some(o => o.subscriptionId === subscription.id && o.orderDate === date);
+
+      let status: SubscriptionPreview['status'] = 'pending';
+      if (alreadyCreated) {
+        status = 'created';
+      } else if (subscription.skippedDates.includes(date)) {
+        status = 'skipped';
+      } else if (deliverable.length === 0) {
+        status = 'paused';
+      }
+
+      return {
+        subscription,
+        order: {
+          customerId: subscription.customerId,
+          customerName: subscription.customerName,
+          items,
+          ...calculateOrderTotals({ items, deliveryCharge: customer?.deliveryCharge }, rounding),
+          status: 'pending' as const,
+          orderDate: date,
+          subscriptionId: subscription.id,
+        },
+        status,
+      };
+    });
+}
@@ -0,0 +1,216 @@
+import { format, parseISO } from 'date-fns';
+import { Adjustment, Customer, Order, Payment, PaymentMethod, Product } from '../types';
+import { getOrderItemTaxes, isInterState } from './gst';
+import { describeOrder } from './orders';
+import { describePayment } from './payments';
+import { describeAdjustment, isCreditNote } from './adjustments';
+import { exportAmount, sumPaise } from './money';
+import { escapeXml } from './xlsx';
+
+// Ledger names in the accountant's Tally company. Customers get a ledger of
+// their own under Sundry Debtors; every other ledger must already exist there.
+export interface TallyLedgers {
+  sales: string;
+  deliveryCharges: string;
+  roundOff: string;
+  adjustments: string;
+  cgst: string;
+  sgst: string;
+  igst: string;
+  payments: Record<PaymentMethod, string>;
+}
+
+export const DEFAULT_TALLY_LEDGERS: TallyLedgers = {
+  sales: 'Sales',
+  deliveryCharges: 'Delivery Charges',
+  roundOff: 'Round Off',
+  adjustments: 'Sales Adjustments',
+  cgst: 'Output CGST',
+  sgst: 'Output SGST',
+  igst: 'Output IGST',
+  payments: {
+    cash: 'Cash',
+    upi: 'UPI Collections',
+    cheque: 'Bank',
+    bank_transfer: 'Bank',
+  },
+};
+
+interface TallyExportOptions {
+  companyName: string;
+  orders: Order[];
+  payments: Payment[];
+  adjustments: Adjustment[];
+  customers: Customer[];
+  products: Product[];
+  // Tax is only split out of sales when the business is GST registered.
+  businessGstin?: string;
+  ledgers?: TallyLedgers;
+}
+
+interface LedgerEntry {
+  ledger: string;
+  // Positive for a debit, negative for a credit.
+  amount: number;
+}
+
+// Tally writes debits as negative amounts and flags them as deemed positive.
+function ledgerEntryXml({ ledger, amount }: LedgerEntry): string {
+  return `<ALLLEDGERENTRIES.LIST>
+<LEDGERNAME>${escapeXml(ledger)}</LEDGERNAME>
+<ISDEEMEDPOSITIVE>${amount > 0 ? 'Yes' : 'No'}</ISDEEMEDPOSITIVE>
+<AMOUNT>${exportAmount(-amount)}</AMOUNT>
+</ALLLEDGERENTRIES.LIST>`;
+}
+
+function voucherXml(
+  type: 'Sales' | 'Receipt' | 'Payment' | 'Credit Note' | 'Debit Note',
+  date: string,
+  number: string,
+  party: string,
+  narration: string,
+  entries: LedgerEntry[]
+): string {
+  return `<TALLYMESSAGE xmlns:UDF="TallyUDF">
+<VOUCHER VCHTYPE="${type}" ACTION="Create">
+<DATE>${format(parseISO(date), 'yyyyMMdd')}</DATE>
+<VOUCHERTYPENAME>${type}</VOUCHERTYPENAME>
+<VOUCHERNUMBER>${escapeXml(number)}</VOUCHERNUMBER>
+<PARTYLEDGERNAME>${escapeXml(party)}</PARTYLEDGERNAME>
+<NARRATION>${escapeXml(narration)}</NARRATION>
+${entries.filter(entry => entry.amount !== 0).map(ledgerEntryXml).join('\n')}
+</VOUCHER>
+</TALLYMESSAGE>`;
+}
+
+function partyLedgerXml(name: string, customer?: Customer): string {
+  return `<TALLYMESSAGE xmlns:UDF="TallyUDF">
+<LEDGER NAME="${escapeXml(name)}" ACTION="Create">
+<NAME>${escapeXml(name)}</NAME>
+<PARENT>Sundry Debtors</PARENT>
+${customer?.address ? `<ADDRESS.LIST><ADDRESS>${escapeXml(customer.address)}</ADDRESS></ADDRESS.LIST>\n` : ''}${customer?.phone ? `<LEDGERPHONE>${escapeXml(customer.phone)}</LEDGERPHONE>\n` : ''}${customer?.gstin ? `<PARTYGSTIN>${escapeXml(customer.gstin)}</PARTYGSTIN>\n` : ''}</LEDGER>
+</TALLYMESSAGE>`;
+}
+
+// Orders become sales vouchers and payments receipt vouchers, in Tally's XML
+// import format. A bounced cheque's reversal goes back as a payment voucher,
+// and adjustments as credit or debit notes. Each voucher balances: the sales
+// ledger takes whatever the taxes, delivery charge and round-off leave of the
+// order total.
+export function buildTallyXml({
+  companyName,
+  orders,
+  payments,
+  adjustments,
+  customers,
+  products,
+  businessGstin,
+  ledgers = DEFAULT_TALLY_LEDGERS,
+}: TallyExportOptions): string {
+  // One Sundry Debtors ledger per customer, keyed by id. Records of a deleted
+  // customer carry its name; customers sharing a name are told apart by phone.
+  // Namesakes are looked for among all customers, not just those in the
+  // exported range, so a ledger keeps its name from one export to the next.
+  const storedNames = new Map<string, string>();
+  [...orders, ...payments, ...adjustments].forEach(record => {
+    if (!storedNames.has(record.customerId)) storedNames.set(record.customerId, record.customerName);
+  });
+  const partyIds = [...storedNames.keys()];
+  const knownIds = [...new Set([...customers.map(c => c.id), ...partyIds])];
+  const baseName = (customerId: string) =>
+    customers.find(c => c.id === customerId)?.name ?? storedNames.get(customerId) ?? customerId;
+  const phoneOf = (customerId: string) => customers.find(c => c.id === customerId)?.phone;
+  const ledgerNames = new Map(partyIds.map(id => {
+    const namesakes = knownIds.filter(other => other !== id && baseName(other).toLowerCase() === baseName(id).toLowerCase());
+    if (namesakes.length === 0) return [id, baseName(id)];
+    const phone = phoneOf(id);
+    const phoneIsUnique = !!phone && namesakes.every(other => phoneOf(other) !== phone);
+    return [id, `${baseName(id)} (${phoneIsUnique ? phone : id})`];
+  }));
+  const partyName = (customerId: string) => ledgerNames.get(customerId) ?? baseName(customerId);
+
+  const salesVouchers = [...orders]
+    .sort((a, b) => a.orderDate.localeCompare(b.orderDate))
+    .map(order => {
+      const party = partyName(order.customerId);
+      const customer = customers.find(c => c.id === order.customerId);
+      const taxes = businessGstin
+        ? getOrderItemTaxes(order, products, isInterState(businessGstin, customer?.gstin)).map(t => t.tax)
+        : [];
+      const cgst = sumPaise(taxes.map(t => t.cgst));
+      const sgst = sumPaise(taxes.map(t => t.sgst));
+      const igst = sumPaise(taxes.map(t => t.igst));
+      const deliveryCharge = order.deliveryCharge ?? 0;
+      const roundOff = order.roundOff ?? 0;
+      const sales = order.totalAmount - cgst - sgst - igst - deliveryCharge - roundOff;
+
+      return voucherXml('Sales', order.orderDate, order.id, party, describeOrder(order), [
+        { ledger: party, amount: order.totalAmount },
+        { ledger: ledgers.sales, amount: -sales },
+        { ledger: ledgers.cgst, amount: -cgst },
+        { ledger: ledgers.sgst, amount: -sgst },
+        { ledger: ledgers.igst, amount: -igst },
+        { ledger: ledgers.deliveryCharges, amount: -deliveryCharge },
+        { ledger: ledgers.roundOff, amount: -roundOff },
+      ]);
+    });
+
+  const receiptVouchers = [...payments]
+    .sort((a, b) => a.paymentDate.localeCompare(b.paymentDate))
+    .map(payment => {
+      const party = partyName(payment.customerId);
+      const amount = Math.abs(payment.amount);
+      const received = payment.amount >= 0;
+      return voucherXml(
+        received ? 'Receipt' : 'Payment',
+        payment.paymentDate,
+        payment.reference || payment.id,
+        party,
+        describePayment(payment),
+        [
+          { ledger: ledgers.payments[payment.method], amount: received ? amount : -amount },
+          { ledger: party, amount: received ? -amount : amount },
+        ]
+      );
+    });
+
+  const noteVouchers = [...adjustments]
+    .sort((a, b) => a.adjustmentDate.localeCompare(b.adjustmentDate))
+    .map(adjustment => {
+      const party = partyName(adjustment.customerId);
+      return voucherXml(
+        isCreditNote(adjustment) ? 'Credit Note' : 'Debit Note',
+        adjustment.adjustmentDate,
+        adjustment.id,
+        party,
+        describeAdjustment(adjustment),
+        [
+          { ledger: ledgers.adjustments, amount: adjustment.amount },
+          { ledger: party, amount: -adjustment.amount },
+        ]
+      );
+    });
+
+  const partyLedgers = partyIds.map(id => partyLedgerXml(partyName(id), customers.find(c => c.id === id)));
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<ENVELOPE>
+<HEADER>
+<TALLYREQUEST>Import Data</TALLYREQUEST>
+</HEADER>
+<BODY>
+<IMPORTDATA>
+<REQUESTDESC>
+<REPORTNAME>Vouchers</REPORTNAME>
+<STATICVARIABLES>
+<SVCURRENTCOMPANY>${escapeXml(companyName)}</SVCURRENTCOMPANY>
+</STATICVARIABLES>
+</REQUESTDESC>
+<REQUESTDATA>
+${[...partyLedgers, ...salesVouchers, ...receiptVouchers, ...noteVouchers].join('\n')}
+</REQUESTDATA>
+</IMPORTDATA>
+</BODY>
+</ENVELOPE>
+`;
+}
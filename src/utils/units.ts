@@ -0,0 +1,51 @@
+import { OrderItem, ProductUnit } from '../types';
+
+export const UNITS: Record<ProductUnit, { label: string; short: string; precision: number }> = {
+  litre: { label: 'Litre', short: 'L', precision: 3 },
+  kg: { label: 'Kilogram', short: 'kg', precision: 3 },
+  piece: { label: 'Piece', short: 'pc', precision: 0 },
+  packet: { label: 'Packet', short: 'pkt', precision: 0 },
+};
+
+export const PRODUCT_UNITS = Object.keys(UNITS) as ProductUnit[];
+
+// Products and order lines saved before units existed were counted in pieces.
+export const DEFAULT_UNIT: ProductUnit = 'piece';
+
+export function roundQuantity(quantity: number, unit: ProductUnit = DEFAULT_UNIT): number {
+  const factor = 10 ** UNITS[unit].precision;
+  return Math.round(quantity * factor) / factor;
+}
+
+// The `step` attribute for a quantity input in this unit.
+export function quantityStep(unit: ProductUnit = DEFAULT_UNIT): string {
+  const { precision } = UNITS[unit];
+  return precision === 0 ? '1' : (1 / 10 ** precision).toFixed(precision);
+}
+
+export function isValidQuantity(quantity: number, unit: ProductUnit = DEFAULT_UNIT): boolean {
+  return quantity > 0 && Math.abs(roundQuantity(quantity, unit) - quantity) < 1e-9;
+}
+
+export function formatQuantity(quantity: number, unit: ProductUnit = DEFAULT_UNIT): string {
+  return `${Number(roundQuantity(quantity, unit).toFixed(UNITS[unit].precision))} ${UNITS[unit].short}`;
+}
+
+// "1.5 L" for loose quantities, "2 × 500 ml" for packs.
+export function formatItemQuantity(item: OrderItem): string {
+  return item.variantName
+    ? `${item.quantity} × ${item.variantName}`
+    : formatQuantity(item.quantity, item.unit);
+}
+
+// What the customer kept and is billed for: the delivered quantity, or the
+// ordered one until the delivery is recorded, less returns.
+export function billedQuantity(item: OrderItem): number {
+  const kept = (item.deliveredQuantity ?? item.quantity) - (item.returnedQuantity ?? 0);
+  return Math.max(0, roundQuantity(kept, item.variantId ? 'piece' : item.unit));
+}
+
+// The amount of the product itself, in its unit, that an order line carries.
+export function baseQuantity(item: OrderItem): number {
+  return billedQuantity(item) * (item.packSize ?? 1);
+}
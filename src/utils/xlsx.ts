@@ -0,0 +1,196 @@
+// Small .xlsx (Office Open XML) writer. It covers what our reports need: typed
+// number/date cells, a styled and frozen header row, currency formatting and a
+// SUM totals row. Any page can describe its table as XlsxSheet[] and download it.
+import { excelMoneyFormat, toRupees } from './money';
+import { createZip } from './zip';
+
+export type XlsxColumnType = 'text' | 'number' | 'currency' | 'date';
+
+export interface XlsxColumn {
+  header: string;
+  type?: XlsxColumnType;
+  width?: number;
+  // 'sum' totals the column; 'last' repeats the final value (e.g. a running balance).
+  total?: 'sum' | 'last';
+}
+
+export type XlsxCell = string | number | Date | null | undefined;
+
+export interface XlsxSheet {
+  name: string;
+  columns: XlsxColumn[];
+  rows: XlsxCell[][];
+  totalsLabel?: string;
+}
+
+// Indexes into cellXfs in stylesXml().
+const STYLE = {
+  default: 0,
+  header: 1,
+  date: 2,
+  currency: 3,
+  totalLabel: 4,
+  totalCurrency: 5,
+  totalNumber: 6,
+};
+
+// The currency format follows the saved money format, like formatMoney.
+const stylesXml = () => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="2"><numFmt numFmtId="164" formatCode="${escapeXml(excelMoneyFormat())}"/><numFmt numFmtId="165" formatCode="dd\\-mmm\\-yyyy"/></numFmts>
+<fonts count="3"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><color rgb="FFFFFFFF"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="3"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill><fill><patternFill patternType="solid"><fgColor rgb="FF0EA5E9"/><bgColor indexed="64"/></patternFill></fill></fills>
+<borders count="2"><border><left/><right/><top/><bottom/><diagonal/></border><border><left/><right/><top style="thin"/><bottom style="double"/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="7">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="2" borderId="0" xfId="0" applyFont="1" applyFill="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="0" fontId="2" fillId="0" borderId="1" xfId="0" applyFont="1" applyBorder="1"/>
+<xf numFmtId="164" fontId="2" fillId="0" borderId="1" xfId="0" applyNumberFormat="1" applyFont="1" applyBorder="1"/>
+<xf numFmtId="0" fontId="2" fillId="0" borderId="1" xfId="0" applyFont="1" applyBorder="1"/>
+</cellXfs>
+</styleSheet>`;
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function columnLetter(index: number): string {
+  let letter = '';
+  let n = index + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    letter = String.fromCharCode(65 + rem) + letter;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letter;
+}
+
+// Excel stores dates as days since 1899-12-30.
+function toSerialDate(date: Date): number {
+  const utc = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+  return (utc - Date.UTC(1899, 11, 30)) / 86400000;
+}
+
+function cellXml(ref: string, value: XlsxCell, type: XlsxColumnType = 'text'): string {
+  if (value === null || value === undefined || value === '') return '';
+  if (value instanceof Date) {
+    return `<c r="${ref}" s="${STYLE.date}"><v>${toSerialDate(value)}</v></c>`;
+  }
+  if (typeof value === 'number') {
+    // Currency cells are given in paise and written in rupees.
+    return type === 'currency'
+      ? `<c r="${ref}" s="${STYLE.currency}"><v>${toRupees(value)}</v></c>`
+      : `<c r="${ref}" s="${STYLE.default}"><v>${value}</v></c>`;
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function sheetXml(sheet: XlsxSheet): string {
+  const rows: string[] = [];
+
+  rows.push(`<row r="1">${sheet.columns
+    .map((column, c) => `<c r="${columnLetter(c)}1" t="inlineStr" s="${STYLE.header}"><is><t>${escapeXml(column.header)}</t></is></c>`)
+    .join('')}</row>`);
+
+  sheet.rows.forEach((row, r) => {
+    const rowNumber = r + 2;
+    rows.push(`<row r="${rowNumber}">${row
+      .map((value, c) => cellXml(`${columnLetter(c)}${rowNumber}`, value, sheet.columns[c]?.type))
+      .join('')}</row>`);
+  });
+
+  if (sheet.columns.some(column => column.total)) {
+    const totalRow = sheet.rows.length + 2;
+    const lastDataRow = sheet.rows.length + 1;
+    const cells = sheet.columns.map((column, c) => {
+      const letter = columnLetter(c);
+      const ref = `${letter}${totalRow}`;
+      if (column.total) {
+        const style = column.type === 'currency' ? STYLE.totalCurrency : STYLE.totalNumber;
+        const formula = sheet.rows.length === 0
+          ? '0'
+          : column.total === 'last' ? `${letter}${lastDataRow}` : `SUM(${letter}2:${letter}${lastDataRow})`;
+        return `<c r="${ref}" s="${style}"><f>${formula}</f></c>`;
+      }
+      const label = c === 0 ? escapeXml(sheet.totalsLabel ?? 'Total') : '';
+      return label
+        ? `<c r="${ref}" t="inlineStr" s="${STYLE.totalLabel}"><is><t>${label}</t></is></c>`
+        : `<c r="${ref}" s="${STYLE.totalLabel}"/>`;
+    });
+    rows.push(`<row r="${totalRow}">${cells.join('')}</row>`);
+  }
+
+  const cols = sheet.columns
+    .map((column, c) => `<col min="${c + 1}" max="${c + 1}" width="${column.width ?? 14}" customWidth="1"/>`)
+    .join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols>${cols}</cols>
+<sheetData>${rows.join('')}</sheetData>
+</worksheet>`;
+}
+
+// Sheet names are limited to 31 characters, cannot contain []:*?/\ and must be unique.
+function sheetNames(sheets: XlsxSheet[]): string[] {
+  const used = new Set<string>();
+  return sheets.map((sheet, index) => {
+    const base = (sheet.name.replace(/[[\]:*?/\\]/g, ' ').trim() || `Sheet${index + 1}`).slice(0, 31);
+    let name = base;
+    let suffix = 2;
+    while (used.has(name.toLowerCase())) {
+      const tag = ` (${suffix++})`;
+      name = base.slice(0, 31 - tag.length) + tag;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+export function buildXlsx(sheets: XlsxSheet[]): Blob {
+  const names = sheetNames(sheets);
+
+  const contentTypes = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('\n')}
+</Types>`;
+
+  const rootRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+  const workbook = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')}</sheets>
+</workbook>`;
+
+  const workbookRels = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('\n')}
+<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+  const zip = createZip([
+    { name: '[Content_Types].xml', data: contentTypes },
+    { name: '_rels/.rels', data: rootRels },
+    { name: 'xl/workbook.xml', data: workbook },
+    { name: 'xl/_rels/workbook.xml.rels', data: workbookRels },
+    { name: 'xl/styles.xml', data: stylesXml() },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: sheetXml(sheet) })),
+  ]);
+
+  return new Blob([zip], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}